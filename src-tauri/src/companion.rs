@@ -0,0 +1,114 @@
+// Receives problems from the Competitive Companion browser extension, which
+// POSTs the parsed problem as JSON to http://localhost:27121 when its button
+// is clicked on a contest page.
+
+use serde::{Deserialize, Serialize};
+use std::io::{BufRead, BufReader, Read, Write};
+use std::net::{TcpListener, TcpStream};
+use std::thread;
+use std::time::Duration;
+
+pub const PORT: u16 = 27121;
+
+// Requests larger than this are rejected without reading the body
+const MAX_BODY_BYTES: usize = 16 * 1024 * 1024;
+
+#[derive(Debug, Clone, Serialize, Deserialize)]
+pub struct CompanionTest {
+    pub input: String,
+    pub output: String,
+}
+
+#[derive(Debug, Clone, Serialize, Deserialize)]
+#[serde(rename_all = "camelCase")]
+pub struct CompanionProblem {
+    pub name: String,
+    #[serde(default)]
+    pub group: String,
+    #[serde(default)]
+    pub url: String,
+    #[serde(default)]
+    pub tests: Vec<CompanionTest>,
+    // Milliseconds
+    pub time_limit: Option<u64>,
+    // Megabytes
+    pub memory_limit: Option<u64>,
+}
+
+// Listens on a background thread and calls `on_problem` for every problem
+// received. If the port is taken (e.g. by another editor) the receiver is
+// disabled and the error is logged.
+pub fn start<F>(on_problem: F)
+where
+    F: Fn(CompanionProblem) + Send + 'static,
+{
+    thread::spawn(move || {
+        let listener = match TcpListener::bind(("127.0.0.1", PORT)) {
+            Ok(listener) => listener,
+            Err(e) => {
+                eprintln!("Competitive Companion receiver disabled: {e}");
+                return;
+            }
+        };
+
+        for stream in listener.incoming() {
+            let Ok(mut stream) = stream else { continue };
+            match handle_connection(&mut stream) {
+                Ok(problem) => {
+                    respond(&mut stream, "200 OK");
+                    on_problem(problem);
+                }
+                Err(e) => {
+                    eprintln!("Competitive Companion request rejected: {e}");
+                    respond(&mut stream, "400 Bad Request");
+                }
+            }
+        }
+    });
+}
+
+fn handle_connection(stream: &mut TcpStream) -> Result<CompanionProblem, String> {
+    stream
+        .set_read_timeout(Some(Duration::from_secs(5)))
+        .map_err(|e| e.to_string())?;
+    let mut reader = BufReader::new(stream);
+
+    let mut request_line = String::new();
+    reader
+        .read_line(&mut request_line)
+        .map_err(|e| e.to_string())?;
+    if !request_line.starts_with("POST ") {
+        return Err(format!("unexpected request: {}", request_line.trim()));
+    }
+
+    let mut content_length = 0;
+    loop {
+        let mut line = String::new();
+        reader.read_line(&mut line).map_err(|e| e.to_string())?;
+        let line = line.trim_end();
+        if line.is_empty() {
+            break;
+        }
+        if let Some((name, value)) = line.split_once(':') {
+            if name.trim().eq_ignore_ascii_case("content-length") {
+                content_length = value
+                    .trim()
+                    .parse()
+                    .map_err(|_| format!("invalid Content-Length: {}", value.trim()))?;
+            }
+        }
+    }
+
+    if content_length > MAX_BODY_BYTES {
+        return Err(format!("body too large ({content_length} bytes)"));
+    }
+
+    let mut body = vec![0; content_length];
+    reader.read_exact(&mut body).map_err(|e| e.to_string())?;
+    serde_json::from_slice(&body).map_err(|e| format!("invalid problem JSON: {e}"))
+}
+
+fn respond(stream: &mut TcpStream, status: &str) {
+    let response = format!("HTTP/1.1 {status}\r\nContent-Length: 0\r\nConnection: close\r\n\r\n");
+    let _ = stream.write_all(response.as_bytes());
+}
@@ -1,17 +1,58 @@
+mod companion;
+mod local_runner;
+mod piston;
+
+use tauri::Emitter;
+
 // Learn more about Tauri commands at https://tauri.app/develop/calling-rust/
 #[tauri::command]
 fn greet(name: &str) -> String {
     format!("Hello, {}! You've been greeted from Rust!", name)
 }
 
+// Compiles and runs code with the local toolchains. The work happens on a
+// blocking thread so long compiles don't stall the async runtime.
+#[tauri::command]
+async fn run_local(
+    request: local_runner::LocalExecuteRequest,
+) -> Result<local_runner::LocalExecuteResponse, String> {
+    tauri::async_runtime::spawn_blocking(move || local_runner::execute(request))
+        .await
+        .map_err(|e| e.to_string())?
+}
+
+#[tauri::command]
+fn cancel_local_run(run_id: u64) {
+    local_runner::cancel(run_id);
+}
+
+#[tauri::command]
+async fn piston_request(request: piston::PistonRequest) -> Result<piston::PistonResponse, String> {
+    piston::send(request).await
+}
+
 #[cfg_attr(mobile, tauri::mobile_entry_point)]
 pub fn run() {
     tauri::Builder::default()
-        .plugin(tauri_plugin_http::init())
         .plugin(tauri_plugin_opener::init())
         .plugin(tauri_plugin_dialog::init())
         .plugin(tauri_plugin_fs::init())
-        .invoke_handler(tauri::generate_handler![greet])
+        .setup(|app| {
+            // Problems from the browser extension become tabs in the frontend
+            let handle = app.handle().clone();
+            companion::start(move |problem| {
+                if let Err(e) = handle.emit("companion-problem", problem) {
+                    eprintln!("Failed to forward Competitive Companion problem: {e}");
+                }
+            });
+            Ok(())
+        })
+        .invoke_handler(tauri::generate_handler![
+            greet,
+            run_local,
+            cancel_local_run,
+            piston_request
+        ])
         .run(tauri::generate_context!())
         .expect("error while running tauri application");
-}
\ No newline at end of file
+}
@@ -0,0 +1,529 @@
+// Compiles and runs code with the toolchains installed on the user's machine.
+// Requests and responses mirror the Piston `/execute` shape so the frontend
+// can treat both backends the same way.
+
+use serde::{Deserialize, Serialize};
+use std::collections::HashMap;
+use std::fs;
+use std::io::{self, Read, Write};
+use std::path::{Path, PathBuf};
+use std::process::{Child, Command, Stdio};
+use std::sync::atomic::{AtomicBool, AtomicU64, Ordering};
+use std::sync::{mpsc, Arc, Mutex, OnceLock};
+use std::thread;
+use std::time::{Duration, Instant, SystemTime, UNIX_EPOCH};
+
+static RUN_COUNTER: AtomicU64 = AtomicU64::new(0);
+static CANCEL_FLAGS: OnceLock<Mutex<HashMap<u64, CancelEntry>>> = OnceLock::new();
+
+#[derive(Debug, Deserialize)]
+pub struct SourceFile {
+    pub name: Option<String>,
+    pub content: String,
+}
+
+#[derive(Debug, Deserialize)]
+pub struct LocalExecuteRequest {
+    pub language: String,
+    pub files: Vec<SourceFile>,
+    pub stdin: Option<String>,
+    // Extra compiler flags (standard, optimization, sanitizers, ...)
+    #[serde(default)]
+    pub compile_args: Vec<String>,
+    // Arguments passed to the program itself
+    #[serde(default)]
+    pub run_args: Vec<String>,
+    pub compile_timeout: Option<u64>,
+    pub run_timeout: Option<u64>,
+    pub run_id: Option<u64>,
+}
+
+#[derive(Debug, Serialize)]
+pub struct StageResult {
+    pub stdout: String,
+    pub stderr: String,
+    pub code: Option<i32>,
+    pub signal: Option<String>,
+    pub output: String,
+}
+
+#[derive(Debug, Serialize)]
+pub struct LocalExecuteResponse {
+    pub language: String,
+    pub version: String,
+    pub compile: Option<StageResult>,
+    pub run: StageResult,
+}
+
+const DEFAULT_COMPILE_TIMEOUT_MS: u64 = 20_000;
+const DEFAULT_RUN_TIMEOUT_MS: u64 = 5_000;
+// How long to keep reading output once the process has exited. A killed
+// program's children can hold its pipes open long after it is gone.
+const OUTPUT_DRAIN_TIMEOUT: Duration = Duration::from_secs(1);
+// Output kept per stream; the rest is read and thrown away so the program
+// isn't blocked on a full pipe
+const MAX_OUTPUT_BYTES: usize = 8 * 1024 * 1024;
+const OUTPUT_TRUNCATED_NOTE: &str = "\n[Output truncated at 8 MB]";
+// How long a cancel that arrives before its run has registered is kept
+const PENDING_CANCEL_TTL: Duration = Duration::from_secs(10);
+
+enum CancelEntry {
+    Running(Arc<AtomicBool>),
+    // Cancelled before `run_local` got as far as registering the run
+    Pending(Instant),
+}
+
+enum WaitOutcome {
+    Exited,
+    TimedOut,
+    Cancelled,
+}
+
+fn cancel_flags() -> &'static Mutex<HashMap<u64, CancelEntry>> {
+    CANCEL_FLAGS.get_or_init(|| Mutex::new(HashMap::new()))
+}
+
+fn remove_expired_cancels(flags: &mut HashMap<u64, CancelEntry>) {
+    flags.retain(|_, entry| match entry {
+        CancelEntry::Running(_) => true,
+        CancelEntry::Pending(at) => at.elapsed() < PENDING_CANCEL_TTL,
+    });
+}
+
+// Registers a run so `cancel` can reach it. A cancel that got here first
+// starts the run cancelled. The entry is removed when the guard is dropped,
+// however the run ends.
+struct CancelRegistration {
+    run_id: u64,
+    cancelled: Arc<AtomicBool>,
+}
+
+impl CancelRegistration {
+    fn new(run_id: u64) -> Self {
+        let mut flags = cancel_flags().lock().unwrap_or_else(|e| e.into_inner());
+        remove_expired_cancels(&mut flags);
+        let pending = matches!(flags.get(&run_id), Some(CancelEntry::Pending(_)));
+        let cancelled = Arc::new(AtomicBool::new(pending));
+        flags.insert(run_id, CancelEntry::Running(cancelled.clone()));
+        CancelRegistration { run_id, cancelled }
+    }
+}
+
+impl Drop for CancelRegistration {
+    fn drop(&mut self) {
+        let mut flags = cancel_flags().lock().unwrap_or_else(|e| e.into_inner());
+        flags.remove(&self.run_id);
+    }
+}
+
+// Kills the processes of a run in progress. The command can overtake the
+// `run_local` call it cancels, so an unknown id is kept for a while in case
+// its run is about to start; ids are never reused, so a late cancel for a
+// finished run just expires.
+pub fn cancel(run_id: u64) {
+    let mut flags = cancel_flags().lock().unwrap_or_else(|e| e.into_inner());
+    remove_expired_cancels(&mut flags);
+    match flags.get(&run_id) {
+        Some(CancelEntry::Running(cancelled)) => cancelled.store(true, Ordering::SeqCst),
+        _ => {
+            flags.insert(run_id, CancelEntry::Pending(Instant::now()));
+        }
+    }
+}
+
+pub fn execute(request: LocalExecuteRequest) -> Result<LocalExecuteResponse, String> {
+    if request.files.is_empty() {
+        return Err("No source files were provided".into());
+    }
+
+    let registration = request.run_id.map(CancelRegistration::new);
+    let cancelled = registration
+        .as_ref()
+        .map(|registration| registration.cancelled.clone())
+        .unwrap_or_else(|| Arc::new(AtomicBool::new(false)));
+
+    let work_dir = create_work_dir().map_err(|e| format!("Failed to create temp dir: {e}"))?;
+    let result = execute_in(&work_dir, &request, &cancelled);
+    let _ = fs::remove_dir_all(&work_dir);
+    result
+}
+
+fn execute_in(
+    work_dir: &Path,
+    request: &LocalExecuteRequest,
+    cancelled: &AtomicBool,
+) -> Result<LocalExecuteResponse, String> {
+    let language = request.language.as_str();
+    let main_name = write_files(work_dir, language, &request.files)
+        .map_err(|e| format!("Failed to write source files: {e}"))?;
+
+    let compile_timeout = Duration::from_millis(
+        request
+            .compile_timeout
+            .unwrap_or(DEFAULT_COMPILE_TIMEOUT_MS),
+    );
+    let run_timeout = Duration::from_millis(request.run_timeout.unwrap_or(DEFAULT_RUN_TIMEOUT_MS));
+    let stdin = request.stdin.clone().unwrap_or_default();
+
+    let compile = match compile_command(
+        work_dir,
+        language,
+        &main_name,
+        &request.files,
+        &request.compile_args,
+    )? {
+        Some(command) => {
+            let stage = run_process(command, None, compile_timeout, cancelled)?;
+            let failed = stage.code != Some(0);
+            if failed {
+                return Ok(LocalExecuteResponse {
+                    language: request.language.clone(),
+                    version: "local".into(),
+                    compile: Some(stage),
+                    run: empty_stage(),
+                });
+            }
+            Some(stage)
+        }
+        None => None,
+    };
+
+    let command = run_command(work_dir, language, &main_name, &request.run_args)?;
+    let run = run_process(command, Some(stdin), run_timeout, cancelled)?;
+
+    Ok(LocalExecuteResponse {
+        language: request.language.clone(),
+        version: "local".into(),
+        compile,
+        run,
+    })
+}
+
+fn create_work_dir() -> io::Result<PathBuf> {
+    let nanos = SystemTime::now()
+        .duration_since(UNIX_EPOCH)
+        .map(|d| d.as_nanos())
+        .unwrap_or(0);
+    let counter = RUN_COUNTER.fetch_add(1, Ordering::SeqCst);
+    let dir = std::env::temp_dir().join(format!(
+        "notepad-sharp-{}-{}-{}",
+        std::process::id(),
+        nanos,
+        counter
+    ));
+    fs::create_dir_all(&dir)?;
+    Ok(dir)
+}
+
+fn default_file_name(language: &str) -> &'static str {
+    match language {
+        "cpp" => "main.cpp",
+        "c" => "main.c",
+        "python" => "main.py",
+        "java" => "Main.java",
+        "javascript" => "main.js",
+        _ => "main.txt",
+    }
+}
+
+// Writes every file into the work dir and returns the name of the first one,
+// which is treated as the entry point.
+fn write_files(work_dir: &Path, language: &str, files: &[SourceFile]) -> io::Result<String> {
+    let mut main_name = String::new();
+
+    for (index, file) in files.iter().enumerate() {
+        let name = match &file.name {
+            Some(name) if is_safe_file_name(name) => name.clone(),
+            _ if index == 0 => default_file_name(language).to_string(),
+            _ => format!("file{index}.code"),
+        };
+        fs::write(work_dir.join(&name), &file.content)?;
+        if index == 0 {
+            main_name = name;
+        }
+    }
+
+    Ok(main_name)
+}
+
+fn is_safe_file_name(name: &str) -> bool {
+    !name.is_empty() && name != "." && name != ".." && !name.contains('/') && !name.contains('\\')
+}
+
+fn executable_name() -> &'static str {
+    if cfg!(windows) {
+        "main.exe"
+    } else {
+        "main"
+    }
+}
+
+fn python_program() -> &'static str {
+    if cfg!(windows) {
+        "python"
+    } else {
+        "python3"
+    }
+}
+
+fn files_with_extensions(
+    files: &[SourceFile],
+    main_name: &str,
+    extensions: &[&str],
+) -> Vec<String> {
+    let mut names = vec![main_name.to_string()];
+    for file in files.iter().skip(1) {
+        if let Some(name) = &file.name {
+            let matches = extensions
+                .iter()
+                .any(|ext| name.to_lowercase().ends_with(&format!(".{ext}")));
+            if matches && is_safe_file_name(name) && !names.contains(name) {
+                names.push(name.clone());
+            }
+        }
+    }
+    names
+}
+
+fn compile_command(
+    work_dir: &Path,
+    language: &str,
+    main_name: &str,
+    files: &[SourceFile],
+    compile_args: &[String],
+) -> Result<Option<Command>, String> {
+    let command = match language {
+        "cpp" => {
+            let mut command = Command::new("g++");
+            command
+                .args(files_with_extensions(
+                    files,
+                    main_name,
+                    &["cpp", "cc", "cxx"],
+                ))
+                .args(compile_args)
+                .args(["-o", executable_name()]);
+            Some(command)
+        }
+        "c" => {
+            let mut command = Command::new("gcc");
+            command
+                .args(files_with_extensions(files, main_name, &["c"]))
+                .args(compile_args)
+                .args(["-o", executable_name(), "-lm"]);
+            Some(command)
+        }
+        "java" => {
+            let mut command = Command::new("javac");
+            command
+                .args(compile_args)
+                .args(files_with_extensions(files, main_name, &["java"]));
+            Some(command)
+        }
+        "python" | "javascript" => None,
+        other => return Err(format!("Local execution is not supported for {other}")),
+    };
+
+    Ok(command.map(|mut command| {
+        command.current_dir(work_dir);
+        command
+    }))
+}
+
+fn run_command(
+    work_dir: &Path,
+    language: &str,
+    main_name: &str,
+    run_args: &[String],
+) -> Result<Command, String> {
+    let mut command = match language {
+        "cpp" | "c" => Command::new(work_dir.join(executable_name())),
+        "java" => {
+            let class_name = main_name.trim_end_matches(".java");
+            let mut command = Command::new("java");
+            command.args(["-cp", ".", class_name]);
+            command
+        }
+        "python" => {
+            let mut command = Command::new(python_program());
+            command.arg(main_name);
+            command
+        }
+        "javascript" => {
+            let mut command = Command::new("node");
+            command.arg(main_name);
+            command
+        }
+        other => return Err(format!("Local execution is not supported for {other}")),
+    };
+
+    command.args(run_args).current_dir(work_dir);
+    Ok(command)
+}
+
+fn empty_stage() -> StageResult {
+    StageResult {
+        stdout: String::new(),
+        stderr: String::new(),
+        code: None,
+        signal: None,
+        output: String::new(),
+    }
+}
+
+// Reads a pipe on its own thread and sends what arrives in chunks, so the
+// output can be collected without waiting for the pipe to close. One byte
+// past the limit is sent so `collect_output` can tell the output was cut.
+fn spawn_reader<R: Read + Send + 'static>(mut reader: R) -> mpsc::Receiver<Vec<u8>> {
+    let (sender, receiver) = mpsc::channel();
+    thread::spawn(move || {
+        let mut chunk = [0u8; 8192];
+        let mut remaining = MAX_OUTPUT_BYTES + 1;
+        loop {
+            match reader.read(&mut chunk) {
+                Ok(0) => break,
+                Ok(_) if remaining == 0 => continue,
+                Ok(read) => {
+                    let kept = read.min(remaining);
+                    remaining -= kept;
+                    if sender.send(chunk[..kept].to_vec()).is_err() {
+                        break;
+                    }
+                }
+                Err(e) if e.kind() == io::ErrorKind::Interrupted => continue,
+                Err(_) => break,
+            }
+        }
+    });
+    receiver
+}
+
+// Everything a reader sent until its pipe closed or the deadline passed,
+// with a note at the end if it went over the limit
+fn collect_output(receiver: mpsc::Receiver<Vec<u8>>, deadline: Instant) -> String {
+    let mut buffer = Vec::new();
+    loop {
+        let remaining = deadline.saturating_duration_since(Instant::now());
+        match receiver.recv_timeout(remaining) {
+            Ok(chunk) => buffer.extend(chunk),
+            Err(_) => break,
+        }
+    }
+
+    let truncated = buffer.len() > MAX_OUTPUT_BYTES;
+    buffer.truncate(MAX_OUTPUT_BYTES);
+    let mut output = String::from_utf8_lossy(&buffer).into_owned();
+    if truncated {
+        output.push_str(OUTPUT_TRUNCATED_NOTE);
+    }
+    output
+}
+
+fn run_process(
+    mut command: Command,
+    stdin: Option<String>,
+    timeout: Duration,
+    cancelled: &AtomicBool,
+) -> Result<StageResult, String> {
+    let program = command.get_program().to_string_lossy().into_owned();
+
+    let mut child = command
+        .stdin(Stdio::piped())
+        .stdout(Stdio::piped())
+        .stderr(Stdio::piped())
+        .spawn()
+        .map_err(|e| match e.kind() {
+            io::ErrorKind::NotFound => {
+                format!("{program} was not found. Is it installed and on your PATH?")
+            }
+            _ => format!("Failed to start {program}: {e}"),
+        })?;
+
+    // Feed stdin from a separate thread so a program that never reads it
+    // can't block us on a full pipe. The thread isn't joined: it ends once
+    // the pipe closes.
+    if let Some(mut pipe) = child.stdin.take() {
+        let input = stdin.unwrap_or_default();
+        thread::spawn(move || {
+            let _ = pipe.write_all(input.as_bytes());
+        });
+    }
+    let stdout_reader = child.stdout.take().map(spawn_reader);
+    let stderr_reader = child.stderr.take().map(spawn_reader);
+
+    let outcome = wait_with_timeout(&mut child, timeout, cancelled);
+    let status = child
+        .wait()
+        .map_err(|e| format!("Failed to wait for {program}: {e}"))?;
+
+    let deadline = Instant::now() + OUTPUT_DRAIN_TIMEOUT;
+    let stdout = stdout_reader
+        .map(|receiver| collect_output(receiver, deadline))
+        .unwrap_or_default();
+    let stderr = stderr_reader
+        .map(|receiver| collect_output(receiver, deadline))
+        .unwrap_or_default();
+
+    let signal = match outcome {
+        WaitOutcome::Cancelled => return Err("Run cancelled".into()),
+        WaitOutcome::TimedOut => Some("SIGKILL".to_string()),
+        WaitOutcome::Exited => exit_signal(&status),
+    };
+
+    Ok(StageResult {
+        output: format!("{stdout}{stderr}"),
+        stdout,
+        stderr,
+        code: if signal.is_some() {
+            None
+        } else {
+            status.code()
+        },
+        signal,
+    })
+}
+
+// Polls the child until it exits, kills it once the timeout passes or the
+// run is cancelled
+fn wait_with_timeout(child: &mut Child, timeout: Duration, cancelled: &AtomicBool) -> WaitOutcome {
+    let start = Instant::now();
+    loop {
+        match child.try_wait() {
+            Ok(Some(_)) => return WaitOutcome::Exited,
+            Ok(None) if cancelled.load(Ordering::SeqCst) => {
+                let _ = child.kill();
+                return WaitOutcome::Cancelled;
+            }
+            Ok(None) if start.elapsed() >= timeout => {
+                let _ = child.kill();
+                return WaitOutcome::TimedOut;
+            }
+            Ok(None) => thread::sleep(Duration::from_millis(10)),
+            Err(_) => return WaitOutcome::Exited,
+        }
+    }
+}
+
+#[cfg(unix)]
+fn exit_signal(status: &std::process::ExitStatus) -> Option<String> {
+    use std::os::unix::process::ExitStatusExt;
+
+    status.signal().map(|signal| {
+        match signal {
+            4 => "SIGILL",
+            6 => "SIGABRT",
+            8 => "SIGFPE",
+            9 => "SIGKILL",
+            11 => "SIGSEGV",
+            13 => "SIGPIPE",
+            15 => "SIGTERM",
+            _ => return format!("SIG{signal}"),
+        }
+        .to_string()
+    })
+}
+
+#[cfg(not(unix))]
+fn exit_signal(_status: &std::process::ExitStatus) -> Option<String> {
+    None
+}
@@ -0,0 +1,70 @@
+// Sends requests to the Piston server set in Settings → Execution. They go
+// through Rust so a self-hosted server on any host works without opening the
+// HTTP plugin's fetch scope to every URL: only Piston's own endpoints can be
+// reached this way.
+
+use serde::{Deserialize, Serialize};
+use std::collections::HashMap;
+use std::time::Duration;
+use tauri_plugin_http::reqwest;
+
+// Covers a slow compile and run on a busy server; the frontend stops
+// waiting earlier when the run is cancelled
+const REQUEST_TIMEOUT: Duration = Duration::from_secs(120);
+
+#[derive(Debug, Deserialize)]
+#[serde(rename_all = "lowercase")]
+pub enum PistonEndpoint {
+    Execute,
+    Runtimes,
+}
+
+#[derive(Debug, Deserialize)]
+pub struct PistonRequest {
+    pub base_url: String,
+    pub endpoint: PistonEndpoint,
+    #[serde(default)]
+    pub headers: HashMap<String, String>,
+    pub body: Option<String>,
+}
+
+#[derive(Debug, Serialize)]
+pub struct PistonResponse {
+    pub status: u16,
+    pub body: String,
+}
+
+pub async fn send(request: PistonRequest) -> Result<PistonResponse, String> {
+    let base_url = request.base_url.trim().trim_end_matches('/');
+    let parsed = reqwest::Url::parse(base_url).map_err(|e| format!("Invalid Piston URL: {e}"))?;
+    if !matches!(parsed.scheme(), "http" | "https") {
+        return Err(format!("Piston URL must use http or https: {base_url}"));
+    }
+
+    let client = reqwest::Client::builder()
+        .timeout(REQUEST_TIMEOUT)
+        .build()
+        .map_err(|e| format!("Failed to create HTTP client: {e}"))?;
+    let mut builder = match request.endpoint {
+        PistonEndpoint::Execute => client.post(format!("{base_url}/execute")),
+        PistonEndpoint::Runtimes => client.get(format!("{base_url}/runtimes")),
+    };
+    for (name, value) in &request.headers {
+        builder = builder.header(name, value);
+    }
+    if let Some(body) = request.body {
+        builder = builder.body(body);
+    }
+
+    let response = builder
+        .send()
+        .await
+        .map_err(|e| format!("Could not reach {base_url}: {e}"))?;
+    let status = response.status().as_u16();
+    let body = response
+        .text()
+        .await
+        .map_err(|e| format!("Failed to read the Piston response: {e}"))?;
+
+    Ok(PistonResponse { status, body })
+}
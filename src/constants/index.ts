@@ -1,16 +1,19 @@
 // src/constants/index.ts
 
-import type { FileFilter, TemplateType, EditorConfig } from "../types";
-
-export const FILE_FILTERS: FileFilter[] = [
-  { name: "All Files", extensions: ["*"] },
-  { name: "C# Files", extensions: ["cs"] },
-  { name: "C++ Files", extensions: ["cpp", "c", "h"] },
-  { name: "Python Files", extensions: ["py"] },
-  { name: "Java Files", extensions: ["java"] },
-  { name: "Text Files", extensions: ["txt", "md"] },
-];
+import type {
+  TemplateType,
+  EditorConfig,
+  ExecutionBackendId,
+  ExecutionTimeouts,
+  BuildProfile,
+  CompanionSettings,
+  ComparisonMode,
+  ComparisonSettings,
+  KeymapMode,
+  Verdict,
+} from "../types";
 
+// Template syntax is described in src/utils/templateSyntax.ts
 export const CODE_TEMPLATES: Record<TemplateType, string> = {
   csharp: `using System;
 using System.Linq;
@@ -18,8 +21,9 @@ using System.Collections.Generic;
 
 class Program {
   static void Main() {
-    int n = int.Parse(Console.ReadLine());
-    Console.WriteLine("You entered: " + n);
+    int \${1:n} = int.Parse(Console.ReadLine());
+    Console.WriteLine("You entered: " + \${1:n});
+    $0
   }
 }`,
 
@@ -34,8 +38,9 @@ using namespace std;
 int main() {
   ios_base::sync_with_stdio(false);
   cin.tie(NULL);
-  
-  
+
+  $0
+
   return 0;
 }`,
 
@@ -43,7 +48,7 @@ int main() {
 input = sys.stdin.readline
 
 def main():
-  
+  $0
 
 if __name__ == "__main__":
   main()`,
@@ -53,7 +58,7 @@ import java.io.*;
 
 public class Main {
   public static void main(String[] args) {
-    
+    $0
   }
 }`,
 };
@@ -67,15 +72,196 @@ export const EDITOR_CONFIG: EditorConfig = {
 
 export const PISTON_API = {
   baseUrl: "https://emkc.org/api/v2/piston",
+  authHeaderName: "Authorization",
+  latestVersion: "*",
+};
+
+// Milliseconds
+export const DEFAULT_TIMEOUTS: ExecutionTimeouts = {
+  compile: 20000,
+  run: 5000,
+};
+
+export const LANGUAGE_TIMEOUT_OVERRIDES: Record<string, ExecutionTimeouts> = {
+  // Mono is slow to start, so C# gets a longer run timeout
+  csharp: { compile: 20000, run: 20000 },
+};
+
+// A judge's time limit is measured on its own hardware without start-up
+// time, so imported tests are stopped only well past it
+export const TIME_LIMIT_SLACK = {
+  factor: 2,
+  extra: 1000,
+};
+
+// Values offered in the "Standard" field of a build profile
+export const LANGUAGE_STANDARDS: Record<string, string[]> = {
+  cpp: ["c++11", "c++14", "c++17", "c++20", "c++23"],
+  c: ["c99", "c11", "c17"],
+  java: ["8", "11", "17", "21"],
+};
+
+export const DEFAULT_BUILD_PROFILE: BuildProfile = {
+  id: "default",
+  name: "Default",
+  standard: "",
+  compileArgs: [],
+  runArgs: [],
+};
+
+// The first profile of a language is active until the user picks another
+export const DEFAULT_BUILD_PROFILES: Record<string, BuildProfile[]> = {
+  cpp: [
+    {
+      id: "release",
+      name: "Release",
+      standard: "c++17",
+      compileArgs: ["-O2"],
+      runArgs: [],
+    },
+    {
+      id: "debug",
+      name: "Debug",
+      standard: "c++17",
+      compileArgs: [
+        "-O0",
+        "-g",
+        "-fsanitize=address,undefined",
+        "-D_GLIBCXX_DEBUG",
+      ],
+      runArgs: [],
+    },
+  ],
+  c: [
+    {
+      id: "release",
+      name: "Release",
+      standard: "c11",
+      compileArgs: ["-O2"],
+      runArgs: [],
+    },
+    {
+      id: "debug",
+      name: "Debug",
+      standard: "c11",
+      compileArgs: ["-O0", "-g", "-fsanitize=address,undefined"],
+      runArgs: [],
+    },
+  ],
+};
+
+export const EXECUTION_BACKENDS: Record<ExecutionBackendId, string> = {
+  piston: "Piston (remote)",
+  local: "Local toolchain",
+};
+
+export const VERDICT_LABELS: Record<Verdict, string> = {
+  AC: "Accepted",
+  WA: "Wrong Answer",
+  TLE: "Time Limit",
+  RE: "Runtime Error",
+  CE: "Compile Error",
+  FAIL: "Checker Failed",
+};
+
+// Files handed to checker programs, in argument order
+export const CHECKER_FILES = {
+  input: "input.txt",
+  output: "output.txt",
+  answer: "answer.txt",
+};
+
+// testlib exit codes: 0 = ok, 1 = wrong answer, 2 = presentation error.
+// Anything else (3 = fail, crashes, timeouts) is a checker failure.
+export const CHECKER_EXIT_VERDICTS: Record<number, Verdict> = {
+  0: "AC",
+  1: "WA",
+  2: "WA",
+};
+
+// Runs kept per file in the runner's History panel
+export const RUN_HISTORY_CONFIG = {
+  storageKey: "notepad-sharp-run-history",
+  maxEntriesPerFile: 50,
+  // Longer stdin/stdout/stderr is cut so localStorage stays small
+  maxStreamLength: 20000,
+  // History shares localStorage with the settings, so the files run least
+  // recently are dropped past these limits (length in characters)
+  maxFiles: 100,
+  maxStorageLength: 2000000,
+  // Unsaved tabs are keyed by tab id, which is only unique until the app
+  // closes, so their runs aren't saved
+  unsavedKeyPrefix: "unsaved:",
+};
+
+export const COMPARISON_MODES: Record<ComparisonMode, string> = {
+  exact: "Exact",
+  "trailing-whitespace": "Ignore trailing whitespace",
+  token: "Tokens",
+  float: "Floating point",
+};
+
+export const DEFAULT_COMPARISON: ComparisonSettings = {
+  mode: "trailing-whitespace",
+  absoluteEpsilon: 1e-6,
+  relativeEpsilon: 1e-6,
+};
+
+export const LANGUAGE_DETECTION = {
+  // Only the start of the buffer is scanned
+  sampleLength: 20000,
+  minScore: 3,
+  // Pastes at least this long re-detect the language of untitled tabs
+  largePasteLength: 200,
+};
+
+export const SEARCH_CONFIG = {
+  // Counting stops here so huge buffers don't stall typing in the find field
+  maxCount: 1000,
+  // Results listed by "find in all open tabs"
+  maxTabResults: 500,
+  maxPreviewLength: 200,
+};
+
+export const PALETTE_CONFIG = {
+  // Items listed at once; typing narrows the rest down
+  maxResults: 50,
 };
 
-export const LANGUAGE_IDS: Record<string, string> = {
-  cs: "csharp",
-  cpp: "cpp",
-  c: "c",
-  py: "python",
-  java: "java",
-  js: "javascript",
+// Keybindings by command id; custom templates have none by default
+export const DEFAULT_KEYBINDINGS: Record<string, string> = {
+  "file.new": "Ctrl+N",
+  "file.open": "Ctrl+O",
+  "file.save": "Ctrl+S",
+  "tab.close": "Ctrl+W",
+  "tab.next": "Ctrl+Tab",
+  "tab.rename": "F2",
+  "edit.find": "Ctrl+F",
+  "view.zoomIn": "Ctrl+=",
+  "view.zoomOut": "Ctrl+-",
+  "view.toggleSplit": "Ctrl+\\",
+  "runner.show": "Alt+N",
+  "runner.hide": "Escape",
+  "runner.runSelection": "Alt+R",
+  "settings.show": "Ctrl+,",
+  "palette.show": "Ctrl+Shift+P",
+  "template.csharp": "Ctrl+3",
+  "template.cpp": "Ctrl+4",
+  "template.python": "Ctrl+5",
+  "template.java": "Ctrl+6",
+};
+
+export const KEYMAP_MODES: Record<KeymapMode, string> = {
+  default: "Default",
+  vim: "Vim",
+  emacs: "Emacs",
+};
+
+export const COMPANION_EVENT = "companion-problem";
+
+export const DEFAULT_COMPANION_SETTINGS: CompanionSettings = {
+  templateKey: "cpp",
+  extension: "cpp",
 };
 
 // Zoom configuration
@@ -0,0 +1,143 @@
+// src/languages/completions.ts
+
+import type { CodeSnippet } from "../types";
+
+function words(list: string): string[] {
+  return list.trim().split(/\s+/);
+}
+
+// Keywords offered by autocompletion. Python, JavaScript and TypeScript are
+// missing because their CodeMirror packages already complete keywords.
+export const LANGUAGE_KEYWORDS: Record<string, string[]> = {
+  cpp: words(`
+    auto bool break case catch char class const constexpr continue default
+    delete do double else enum explicit false float for friend if inline int
+    long namespace new nullptr operator private protected public return short
+    signed sizeof static struct switch template this throw true try typedef
+    typename unsigned using virtual void while
+  `),
+  c: words(`
+    break case char const continue default do double else enum extern float
+    for if int long return short signed sizeof static struct switch typedef
+    union unsigned void while
+  `),
+  csharp: words(`
+    abstract bool break case catch char class const continue decimal default
+    do double else enum false finally float for foreach if in int interface
+    internal long namespace new null out override private protected public
+    readonly ref return static string struct switch this throw true try using
+    var virtual void while
+  `),
+  java: words(`
+    abstract boolean break byte case catch char class continue default do
+    double else enum extends false final finally float for if implements
+    import instanceof int interface long new null package private protected
+    public return short static super switch this throw throws true try var
+    void while
+  `),
+  rust: words(`
+    as break const continue crate else enum false fn for if impl in let loop
+    match mod move mut pub ref return self Self static struct trait true type
+    unsafe use where while
+  `),
+  go: words(`
+    break case chan const continue default defer else fallthrough for func go
+    goto if import interface map package range return select struct switch
+    type var
+  `),
+};
+
+// Built-in snippets; user snippets from the Settings modal are added to them
+export const DEFAULT_SNIPPETS: CodeSnippet[] = [
+  {
+    id: "cpp-fori",
+    language: "cpp",
+    label: "fori",
+    body: "for (int ${i} = 0; ${i} < ${n}; ${i}++) {\n\t${}\n}",
+  },
+  {
+    id: "cpp-vector",
+    language: "cpp",
+    label: "vector<int>",
+    body: "vector<int> ${a}(${n});",
+  },
+  {
+    id: "cpp-cout",
+    language: "cpp",
+    label: "cout",
+    body: "cout << ${} << '\\n';",
+  },
+  { id: "cpp-cin", language: "cpp", label: "cin", body: "cin >> ${};" },
+  {
+    id: "cpp-fastio",
+    language: "cpp",
+    label: "fastio",
+    body: "ios::sync_with_stdio(false);\ncin.tie(nullptr);",
+  },
+  {
+    id: "c-fori",
+    language: "c",
+    label: "fori",
+    body: "for (int ${i} = 0; ${i} < ${n}; ${i}++) {\n\t${}\n}",
+  },
+  {
+    id: "c-printf",
+    language: "c",
+    label: "printf",
+    body: 'printf("${}\\n");',
+  },
+  {
+    id: "java-fori",
+    language: "java",
+    label: "fori",
+    body: "for (int ${i} = 0; ${i} < ${n}; ${i}++) {\n\t${}\n}",
+  },
+  {
+    id: "java-scanner",
+    language: "java",
+    label: "Scanner",
+    body: "Scanner ${sc} = new Scanner(System.in);",
+  },
+  {
+    id: "java-sout",
+    language: "java",
+    label: "sout",
+    body: "System.out.println(${});",
+  },
+  {
+    id: "csharp-fori",
+    language: "csharp",
+    label: "fori",
+    body: "for (int ${i} = 0; ${i} < ${n}; ${i}++)\n{\n\t${}\n}",
+  },
+  {
+    id: "csharp-cw",
+    language: "csharp",
+    label: "cw",
+    body: "Console.WriteLine(${});",
+  },
+  {
+    id: "python-fori",
+    language: "python",
+    label: "fori",
+    body: "for ${i} in range(${n}):\n\t${}",
+  },
+  {
+    id: "python-ints",
+    language: "python",
+    label: "ints",
+    body: "${a} = list(map(int, input().split()))",
+  },
+  {
+    id: "rust-fori",
+    language: "rust",
+    label: "fori",
+    body: "for ${i} in 0..${n} {\n\t${}\n}",
+  },
+  {
+    id: "go-fori",
+    language: "go",
+    label: "fori",
+    body: "for ${i} := 0; ${i} < ${n}; ${i}++ {\n\t${}\n}",
+  },
+];
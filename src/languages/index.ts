@@ -0,0 +1,174 @@
+// src/languages/index.ts
+
+import { cpp } from "@codemirror/lang-cpp";
+import { java } from "@codemirror/lang-java";
+import { python } from "@codemirror/lang-python";
+import { javascript } from "@codemirror/lang-javascript";
+import { rust } from "@codemirror/lang-rust";
+import { go } from "@codemirror/lang-go";
+import { markdown } from "@codemirror/lang-markdown";
+import { json } from "@codemirror/lang-json";
+import { csharp } from "@replit/codemirror-lang-csharp";
+import type { FileFilter, LanguageDefinition } from "../types";
+
+const C_STYLE_COMMENTS = {
+  line: "//",
+  block: ["/*", "*/"] as [string, string],
+};
+
+// Every language the editor knows about. Highlighting, language detection,
+// the runner and the templates all read from this list.
+export const LANGUAGES: LanguageDefinition[] = [
+  {
+    id: "cpp",
+    name: "C++",
+    extensions: ["cpp", "cc", "cxx", "hpp", "h"],
+    support: cpp,
+    comments: C_STYLE_COMMENTS,
+    pistonId: "cpp",
+    sourceFileName: "main.cpp",
+    localRunner: true,
+    template: "cpp",
+  },
+  {
+    id: "c",
+    name: "C",
+    extensions: ["c"],
+    support: cpp,
+    comments: C_STYLE_COMMENTS,
+    pistonId: "c",
+    sourceFileName: "main.c",
+    localRunner: true,
+  },
+  {
+    id: "csharp",
+    name: "C#",
+    extensions: ["cs"],
+    support: csharp,
+    comments: C_STYLE_COMMENTS,
+    pistonId: "csharp",
+    sourceFileName: "Program.cs",
+    template: "csharp",
+  },
+  {
+    id: "python",
+    name: "Python",
+    extensions: ["py"],
+    support: python,
+    comments: { line: "#" },
+    pistonId: "python",
+    sourceFileName: "main.py",
+    localRunner: true,
+    template: "python",
+  },
+  {
+    id: "java",
+    name: "Java",
+    extensions: ["java"],
+    support: java,
+    comments: C_STYLE_COMMENTS,
+    pistonId: "java",
+    sourceFileName: "Main.java",
+    localRunner: true,
+    template: "java",
+  },
+  {
+    id: "javascript",
+    name: "JavaScript",
+    extensions: ["js", "mjs", "cjs"],
+    support: javascript,
+    comments: C_STYLE_COMMENTS,
+    pistonId: "javascript",
+    sourceFileName: "main.js",
+    localRunner: true,
+  },
+  {
+    id: "typescript",
+    name: "TypeScript",
+    extensions: ["ts"],
+    support: () => javascript({ typescript: true }),
+    comments: C_STYLE_COMMENTS,
+    pistonId: "typescript",
+    sourceFileName: "main.ts",
+  },
+  {
+    id: "rust",
+    name: "Rust",
+    extensions: ["rs"],
+    support: rust,
+    comments: C_STYLE_COMMENTS,
+    pistonId: "rust",
+    sourceFileName: "main.rs",
+  },
+  {
+    id: "go",
+    name: "Go",
+    extensions: ["go"],
+    support: go,
+    comments: C_STYLE_COMMENTS,
+    pistonId: "go",
+    sourceFileName: "main.go",
+  },
+  {
+    id: "markdown",
+    name: "Markdown",
+    extensions: ["md", "markdown"],
+    support: markdown,
+    comments: { block: ["<!--", "-->"] },
+  },
+  {
+    id: "json",
+    name: "JSON",
+    extensions: ["json"],
+    support: json,
+    comments: {},
+  },
+];
+
+export function findLanguageById(id: string): LanguageDefinition | undefined {
+  return LANGUAGES.find((language) => language.id === id);
+}
+
+export function findLanguageByPath(
+  filePath: string | null
+): LanguageDefinition | undefined {
+  if (!filePath || !filePath.includes(".")) return undefined;
+  const extension = filePath.split(".").pop()?.toLowerCase() || "";
+  return LANGUAGES.find((language) => language.extensions.includes(extension));
+}
+
+export function findLanguageByTemplate(
+  template: string
+): LanguageDefinition | undefined {
+  return LANGUAGES.find((language) => language.template === template);
+}
+
+export function getLanguageName(id: string): string {
+  return findLanguageById(id)?.name || id;
+}
+
+export function getRunnableLanguages(): LanguageDefinition[] {
+  return LANGUAGES.filter((language) => language.pistonId);
+}
+
+export function getLocalRunnerLanguages(): LanguageDefinition[] {
+  return LANGUAGES.filter((language) => language.localRunner);
+}
+
+// ".cpp, .c, .py, ..." for error messages
+export function formatRunnableExtensions(): string {
+  return getRunnableLanguages()
+    .map((language) => `.${language.extensions[0]}`)
+    .join(", ");
+}
+
+export function getFileFilters(): FileFilter[] {
+  return [
+    { name: "All Files", extensions: ["*"] },
+    ...LANGUAGES.map((language) => ({
+      name: `${language.name} Files`,
+      extensions: language.extensions,
+    })),
+    { name: "Text Files", extensions: ["txt"] },
+  ];
+}
@@ -0,0 +1,44 @@
+// src/managers/CommandRegistry.ts
+
+import type { Command } from "../types";
+
+// Every action the toolbar, menus, keybindings and the command palette can
+// run, by id
+export class CommandRegistry {
+  private commands: Map<string, Command> = new Map();
+
+  // Replaces a command registered under the same id
+  register(command: Command): void {
+    this.commands.set(command.id, command);
+  }
+
+  unregister(commandId: string): void {
+    this.commands.delete(commandId);
+  }
+
+  get(commandId: string): Command | undefined {
+    return this.commands.get(commandId);
+  }
+
+  getAll(): Command[] {
+    return [...this.commands.values()];
+  }
+
+  isEnabled(commandId: string): boolean {
+    const command = this.commands.get(commandId);
+    return !!command && (command.isEnabled?.() ?? true);
+  }
+
+  findByKeybinding(keybinding: string): Command | undefined {
+    return this.getAll().find((command) => command.keybinding === keybinding);
+  }
+
+  // Returns whether the command ran; unknown and disabled ones don't
+  execute(commandId: string): boolean {
+    const command = this.commands.get(commandId);
+    if (!command || !this.isEnabled(commandId)) return false;
+
+    command.run();
+    return true;
+  }
+}
@@ -1,7 +1,7 @@
 // src/managers/EditorManager.ts
 
-import { EditorState } from "@codemirror/state";
-import { EditorView, keymap, lineNumbers } from "@codemirror/view";
+import { Annotation, EditorState, Text, Transaction } from "@codemirror/state";
+import { EditorView, ViewUpdate, keymap, lineNumbers } from "@codemirror/view";
 import {
   defaultKeymap,
   history,
@@ -9,93 +9,273 @@ import {
   redo,
   indentWithTab,
 } from "@codemirror/commands";
-import { Compartment } from "@codemirror/state";
+import { Compartment, StateEffect } from "@codemirror/state";
+import {
+  Diagnostic,
+  forEachDiagnostic,
+  lintGutter,
+  setDiagnostics,
+} from "@codemirror/lint";
+import { snippet } from "@codemirror/autocomplete";
+import {
+  SearchQuery,
+  openSearchPanel,
+  search,
+  searchKeymap,
+  setSearchQuery,
+} from "@codemirror/search";
 
 import { TabManager } from "./TabManager";
+import { PaneManager } from "./PaneManager";
 import { SettingsManager } from "./SettingsManager";
+import { RunHistoryManager } from "./RunHistoryManager";
+import { CommandRegistry } from "./CommandRegistry";
 import { FileService } from "../services/FileService";
 import { PistonService } from "../services/PistonService";
+import { JudgeService } from "../services/JudgeService";
+import { LocalExecutionService } from "../services/LocalExecutionService";
+import { ExecutionService } from "../services/ExecutionService";
+import { StressTestService } from "../services/StressTestService";
 import { TemplateService } from "../services/TemplateService";
+import { CompanionService } from "../services/CompanionService";
 import { TabRenderer } from "../ui/TabRenderer";
-import { ModalManager } from "../ui/ModalManager";
+import { TestCaseRenderer } from "../ui/TestCaseRenderer";
+import { RunHistoryRenderer } from "../ui/RunHistoryRenderer";
+import { OutputDiffRenderer } from "../ui/OutputDiffRenderer";
+import { StatusBarRenderer } from "../ui/StatusBarRenderer";
+import { SearchPanel } from "../ui/SearchPanel";
+import { ModalManager, RunnerPanel, StressSelection } from "../ui/ModalManager";
 import { SettingsModalManager } from "../ui/SettingsModalManager";
 import { EventHandlers } from "../ui/EventHandlers";
+import { CommandPalette, PaletteItem } from "../ui/CommandPalette";
 
-import { EDITOR_CONFIG, ZOOM_CONFIG } from "../constants";
-import { getLanguageExtension, getLanguageId } from "../utils/languageDetector";
-import { expectsInput, extractFileName } from "../utils/helpers";
-import { getThemeExtension } from "../utils/themeUtils";
+import {
+  EDITOR_CONFIG,
+  LANGUAGE_DETECTION,
+  RUN_HISTORY_CONFIG,
+  SEARCH_CONFIG,
+  TIME_LIMIT_SLACK,
+  ZOOM_CONFIG,
+} from "../constants";
+import type {
+  CheckerProgram,
+  Command,
+  CompanionProblem,
+  ComparisonSettings,
+  CompilerDiagnostic,
+  DiffView,
+  ExecutionTimeouts,
+  KeymapMode,
+  PistonExecuteResponse,
+  SourceFile,
+  SplitDirection,
+  StressTestProgram,
+  Tab,
+  TabSearchMatch,
+  TestCase,
+  TestCaseResult,
+} from "../types";
+import { findLanguageByPath, formatRunnableExtensions } from "../languages";
+import {
+  getAutoLanguage,
+  getLanguageExtension,
+  getLanguageId,
+  resolveLanguage,
+} from "../utils/languageDetector";
+import { getAutocompleteExtension } from "../utils/autocomplete";
+import { detectLanguageFromContent } from "../utils/contentDetector";
+import { findTabMatches } from "../utils/searchMatches";
+import {
+  extractFileName,
+  formatElapsed,
+  hashCode,
+  sanitizeFileName,
+} from "../utils/helpers";
+import { diffLines } from "../utils/diff";
+import { compareOutputs } from "../utils/outputComparator";
+import { formatArgs, getBuildArgs } from "../utils/buildArgs";
+import { expectsInput } from "../utils/inputDetector";
+import { wrapSnippet } from "../utils/snippet";
+import { AVAILABLE_THEMES, getThemeExtension } from "../utils/themeUtils";
+import { defineVimCommands, getKeymapExtension } from "../utils/keymapModes";
+import { parseCompilerOutput } from "../utils/diagnosticsParser";
+import { buildSourceFiles, getSourceFileName } from "../utils/sourceFiles";
 import { bracketMatching } from "@codemirror/language";
 import { indentationMarkers } from "@replit/codemirror-indentation-markers";
 import { foldGutter, foldKeymap } from "@codemirror/language";
 
+interface ProgramRunOptions {
+  // Only the editor selection is run, not the file
+  isSelection: boolean;
+  skipInputCheck: boolean;
+  // Re-runs without the stdin check, for the input prompt's "Run Anyway"
+  runAgain: () => void;
+}
+
+// Marks edits replayed from the other pane, which must not be sent back
+const syncedChange = Annotation.define<boolean>();
+
 export class EditorManager {
   private tabManager: TabManager;
+  private paneManager: PaneManager;
   private settingsManager: SettingsManager;
+  private runHistoryManager: RunHistoryManager;
   private fileService: FileService;
   private pistonService: PistonService;
+  private executionService: ExecutionService;
+  private judgeService: JudgeService;
+  private stressTestService: StressTestService;
   private templateService: TemplateService;
-  private tabRenderer: TabRenderer;
+  private companionService: CompanionService;
+  private tabRenderers: TabRenderer[];
+  private testCaseRenderer: TestCaseRenderer;
+  private runHistoryRenderer: RunHistoryRenderer;
+  private outputDiffRenderer: OutputDiffRenderer;
+  private statusBarRenderer: StatusBarRenderer;
   private modalManager: ModalManager;
   private settingsModalManager: SettingsModalManager;
   private eventHandlers: EventHandlers;
+  private commands: CommandRegistry;
+  private commandPalette: CommandPalette;
 
-  private editorView: EditorView;
+  // One view per pane, indexed by pane id
+  private editorViews: EditorView[];
   private languageConf: Compartment;
   private themeConf: Compartment;
+  private completionConf: Compartment;
+  private keymapConf: Compartment;
+  private keymapMode: KeymapMode;
   private currentZoom: number = ZOOM_CONFIG.default;
+  private testResults: Map<number, TestCaseResult> = new Map();
+  private runController: AbortController | null = null;
+  private diffTestCaseId: number | null = null;
+  private searchAllTabs: boolean = false;
+  private stressSelection: StressSelection = {
+    generatorTabId: null,
+    bruteTabId: null,
+    solutionTabId: null,
+    iterations: 100,
+  };
 
   constructor() {
     // Initialize services and managers
     this.tabManager = new TabManager();
+    this.paneManager = new PaneManager();
     this.settingsManager = new SettingsManager();
+    this.runHistoryManager = new RunHistoryManager();
     this.fileService = new FileService();
-    this.pistonService = new PistonService();
+    this.pistonService = new PistonService(this.settingsManager);
+    this.executionService = new ExecutionService(
+      this.settingsManager,
+      this.pistonService,
+      new LocalExecutionService()
+    );
+    this.judgeService = new JudgeService(
+      this.executionService,
+      this.settingsManager
+    );
+    this.stressTestService = new StressTestService(
+      this.executionService,
+      this.settingsManager
+    );
     this.templateService = new TemplateService(this.settingsManager);
+    this.companionService = new CompanionService();
+    this.commands = new CommandRegistry();
     this.modalManager = new ModalManager();
     this.settingsModalManager = new SettingsModalManager(
       this.settingsManager,
       () => this.handleTemplatesChanged(),
-      (theme) => this.handleThemeChanged(theme)
+      (theme) => this.handleThemeChanged(theme),
+      this.pistonService,
+      this.commands
+    );
+
+    // Initialize a tab renderer for each pane
+    this.tabRenderers = [0, 1].map(
+      (paneId) =>
+        new TabRenderer(
+          `tab-bar-${paneId}`,
+          (id) => this.switchToTab(id, paneId),
+          (id) => this.closeTab(id, paneId),
+          (id, newName) => this.renameTab(id, newName),
+          (id) => this.moveTab(id, paneId)
+        )
     );
 
-    // Initialize tab renderer
-    this.tabRenderer = new TabRenderer(
-      (id) => this.switchToTab(id),
-      (id) => this.closeTab(id),
-      (id, newName) => this.renameTab(id, newName)
+    // Initialize test case renderer
+    this.testCaseRenderer = new TestCaseRenderer(
+      (id, changes) => this.updateTestCase(id, changes),
+      (id) => this.removeTestCase(id),
+      (id) => this.showTestCaseDiff(id)
+    );
+
+    // Initialize expected-vs-actual output diff renderer
+    this.outputDiffRenderer = new OutputDiffRenderer();
+
+    // Initialize status bar renderer
+    this.statusBarRenderer = new StatusBarRenderer((languageId) =>
+      this.handleLanguageOverrideChange(languageId)
+    );
+
+    // Initialize run history renderer
+    this.runHistoryRenderer = new RunHistoryRenderer(
+      (entryId) => this.rerunHistoryEntry(entryId),
+      (entryId) => this.compareHistoryEntry(entryId)
+    );
+
+    // Initialize the command palette
+    this.commandPalette = new CommandPalette(
+      () => this.getPaletteItems(),
+      (line) => this.goToLine(line)
     );
 
     // Initialize event handlers (pass settingsManager for dropdown updates)
     this.eventHandlers = new EventHandlers(
       {
-        onNewFile: () => this.createNewTab(),
-        onOpenFile: () => this.openFile(),
-        onSaveFile: () => this.saveFile(),
         onRunCode: () => this.runCode(),
-        onShowRunnerModal: () => this.modalManager.showRunnerModal(),
+        onRunSelection: () => this.runSelection(),
+        onWrapSelectionChange: (wrap) =>
+          this.settingsManager.setWrapSnippets(wrap),
+        onCancelRun: () => this.runController?.abort(),
         onHideRunnerModal: () => this.modalManager.hideRunnerModal(),
         onToggleInput: () => this.modalManager.toggleInputSection(),
         onClearOutput: () => this.modalManager.clearOutput(),
-        onInsertTemplate: (type) => this.insertTemplate(type),
-        onCloseActiveTab: () => this.closeActiveTab(),
-        onSwitchNextTab: () => this.switchToNextTab(),
+        onRuntimeVersionChange: (version) =>
+          this.handleRuntimeVersionChange(version),
+        onBuildProfileChange: (profileId) =>
+          this.handleBuildProfileChange(profileId),
+        onComparisonChange: (changes) => this.handleComparisonChange(changes),
+        onDiffViewChange: (view) => this.handleDiffViewChange(view),
+        onCheckerChange: (checkerTabId) =>
+          this.handleCheckerChange(checkerTabId),
+        onAddTestCase: () => this.addTestCase(),
+        onRunAllTestCases: () => this.runAllTestCases(),
+        onSwitchRunnerPanel: (panel) => this.switchRunnerPanel(panel),
+        onStartStressTest: () => this.startStressTest(),
+        onStopStressTest: () => this.stressTestService.stop(),
+        onClearRunHistory: () => this.clearRunHistory(),
         onHideCSharpWarning: () => this.modalManager.hideCSharpWarningModal(),
-        onRenameActiveTab: () => this.renameActiveTab(),
-        onShowSettings: () => this.settingsModalManager.showSettingsModal(),
-        onZoomIn: () => this.zoomIn(),
-        onZoomOut: () => this.zoomOut(),
       },
-      this.settingsManager
+      this.settingsManager,
+      this.commands
     );
 
     // Initialize editor
     this.languageConf = new Compartment();
     this.themeConf = new Compartment();
-    this.editorView = this.createEditor();
+    this.completionConf = new Compartment();
+    this.keymapConf = new Compartment();
+    this.keymapMode = this.settingsManager.getKeymapMode();
+    this.editorViews = [0, 1].map((paneId) => this.createEditor(paneId));
 
     // Initialize UI
+    this.registerCommands();
     this.eventHandlers.initialize();
+    this.eventHandlers.refreshTemplateDropdown();
+    this.commandPalette.initialize();
+    this.tabRenderers.forEach((renderer) => renderer.initialize());
+    this.renderPanes();
+    this.statusBarRenderer.initialize();
 
     // Create initial tab
     this.createNewTab(
@@ -106,20 +286,59 @@ export class EditorManager {
 
     // Load saved zoom level
     this.loadZoomLevel();
+
+    // :w and :q in Vim mode
+    defineVimCommands({
+      onSave: () => this.saveFile(),
+      onClose: () => this.closeActiveTab(),
+    });
+
+    // Accept problems from the Competitive Companion extension
+    this.companionService
+      .listen((problem) => this.importProblem(problem))
+      .catch((error) =>
+        console.error("Failed to listen for Competitive Companion:", error)
+      );
   }
 
   // ========================================================================
   // Editor Initialization
   // ========================================================================
 
-  private createEditor(): EditorView {
+  // The view of the focused pane
+  private get editorView(): EditorView {
+    return this.editorViews[this.paneManager.getFocusedPaneId()];
+  }
+
+  // The view starts empty; every tab brings its own state
+  private createEditor(paneId: number): EditorView {
+    // Clicking or typing in a pane makes it the focused one
+    const pane = document.getElementById(`editor-pane-${paneId}`);
+    pane?.addEventListener("mousedown", () => this.focusPane(paneId));
+    pane?.addEventListener("focusin", () => this.focusPane(paneId));
+
+    return new EditorView({
+      parent: document.getElementById(`editor-container-${paneId}`)!,
+    });
+  }
+
+  // Each tab owns an EditorState, so undo history, selections and folds stay
+  // with their document when switching tabs. A tab shown in both panes gets
+  // a second state for the other view, created from the same document.
+  private createEditorState(
+    tab: Tab,
+    doc: Text | string = tab.content
+  ): EditorState {
     // Get the current theme from settings
     const currentTheme = this.settingsManager.getTheme();
     const themeExtension = getThemeExtension(currentTheme);
 
-    const startState = EditorState.create({
-      doc: "",
+    return EditorState.create({
+      doc,
       extensions: [
+        // Vim and Emacs keys must take precedence over the keymaps below
+        this.keymapConf.of(getKeymapExtension(this.keymapMode)),
+        lintGutter(),
         lineNumbers(),
         foldGutter(),
         EditorView.lineWrapping,
@@ -127,78 +346,195 @@ export class EditorManager {
         keymap.of([
           ...defaultKeymap,
           ...foldKeymap,
+          ...searchKeymap,
           indentWithTab,
           { key: "Mod-z", run: undo },
           { key: "Mod-y", run: redo },
         ]),
+        search({
+          createPanel: (view) =>
+            new SearchPanel(view, {
+              findInTabs: (query) => this.findInAllTabs(query),
+              onSelectMatch: (match, query) =>
+                this.jumpToSearchMatch(match, query),
+              isAllTabs: () => this.searchAllTabs,
+              onAllTabsChange: (allTabs) => {
+                this.searchAllTabs = allTabs;
+              },
+            }),
+        }),
         bracketMatching(),
         indentationMarkers(),
-        this.languageConf.of([]),
+        this.languageConf.of(getLanguageExtension(tab)),
         this.themeConf.of(themeExtension),
+        this.completionConf.of(this.getCompletionExtension(tab)),
         EditorState.tabSize.of(EDITOR_CONFIG.tabSize),
         EditorView.updateListener.of((update) => {
           if (update.docChanged) {
-            this.handleContentChange();
+            this.handleContentChange(update);
           }
         }),
       ],
     });
+  }
 
-    return new EditorView({
-      state: startState,
-      parent: document.getElementById("editor-container")!,
+  // Edits can come from either pane, not only the focused one
+  private handleContentChange(update: ViewUpdate): void {
+    const paneId = this.editorViews.indexOf(update.view);
+    const tabId = this.paneManager.getPane(paneId).activeTabId;
+    if (tabId === null) return;
+
+    this.tabManager.updateTabContent(tabId, update.state.doc.toString());
+    this.syncPanes(update, tabId);
+    this.renderTabs();
+
+    const tab = this.tabManager.findTabById(tabId);
+    if (tab && (this.isLargePaste(update) || this.isLanguageUnknown(tab))) {
+      this.scheduleLanguageDetection(tabId);
+    }
+  }
+
+  private isLargePaste(update: ViewUpdate): boolean {
+    return update.transactions.some((transaction) => {
+      if (!transaction.isUserEvent("input.paste")) return false;
+
+      let inserted = 0;
+      transaction.changes.iterChanges((_fromA, _toA, _fromB, _toB, text) => {
+        inserted += text.length;
+      });
+      return inserted >= LANGUAGE_DETECTION.largePasteLength;
     });
   }
 
-  private handleContentChange(): void {
-    const activeTab = this.tabManager.getActiveTab();
-    if (!activeTab) return;
+  // Until a language is known, typing keeps looking for one
+  private isLanguageUnknown(tab: Tab): boolean {
+    return tab.languageOverride === null && getAutoLanguage(tab) === undefined;
+  }
 
-    const currentContent = this.editorView.state.doc.toString();
-    this.tabManager.updateTabContent(activeTab.id, currentContent);
-    this.renderTabs();
+  // The editor can't be reconfigured while it is still applying the change
+  private scheduleLanguageDetection(tabId: number): void {
+    queueMicrotask(() => {
+      const tab = this.tabManager.findTabById(tabId);
+      if (tab && this.detectLanguage(tab)) {
+        this.updateLanguage(tab);
+      }
+    });
+  }
+
+  // Only tabs whose name doesn't decide the language are looked at, and a
+  // language picked in the status bar is never replaced. Returns whether
+  // the guess changed.
+  private detectLanguage(tab: Tab): boolean {
+    if (tab.languageOverride || findLanguageByPath(tab.path || tab.name)) {
+      return false;
+    }
+
+    const detected = detectLanguageFromContent(tab.content);
+    if (!detected || detected === tab.detectedLanguage) return false;
+
+    this.tabManager.setDetectedLanguage(tab.id, detected);
+    return true;
   }
 
   // ========================================================================
   // Editor State Save/Restore
   // ========================================================================
 
-  private saveEditorState(): void {
-    const activeTab = this.tabManager.getActiveTab();
-    if (!activeTab) return;
+  // Keeps the state of the tab a pane shows before the pane shows another
+  private saveEditorState(paneId: number): void {
+    const tabId = this.paneManager.getPane(paneId).activeTabId;
+    if (tabId === null) return;
 
-    const cursorPosition = this.editorView.state.selection.main.head;
-    const scrollTop = this.editorView.scrollDOM.scrollTop;
+    const view = this.editorViews[paneId];
+    const cursorPosition = view.state.selection.main.head;
+    const scrollTop = view.scrollDOM.scrollTop;
 
-    this.tabManager.updateTabEditorState(
-      activeTab.id,
-      cursorPosition,
-      scrollTop
-    );
+    this.tabManager.updateTabEditorState(tabId, cursorPosition, scrollTop);
+    this.tabManager.setEditorState(tabId, view.state);
   }
 
-  private restoreEditorState(tabId: number): void {
-    const tab = this.tabManager.findTabById(tabId);
-    if (!tab) return;
-
-    // Restore cursor position
-    if (tab.cursorPosition !== undefined) {
-      const pos = Math.min(
-        tab.cursorPosition,
-        this.editorView.state.doc.length
+  // Swaps the tab's document, history, selection and diagnostics into the
+  // pane's view. The saved state is out of date while the other pane shows
+  // the tab, so its document and diagnostics are used instead.
+  private showTabState(tab: Tab, paneId: number): void {
+    const view = this.editorViews[paneId];
+    const otherView = this.getViewsShowingTab(tab.id).find((v) => v !== view);
+
+    if (otherView) {
+      const state = this.createEditorState(tab, otherView.state.doc);
+      const diagnostics: Diagnostic[] = [];
+      forEachDiagnostic(otherView.state, (d, from, to) =>
+        diagnostics.push({ ...d, from, to })
       );
-      this.editorView.dispatch({
-        selection: { anchor: pos },
-        scrollIntoView: true,
-      });
+      view.setState(state.update(setDiagnostics(state, diagnostics)).state);
+    } else {
+      view.setState(tab.editorState || this.createEditorState(tab));
     }
+  }
+
+  // The selection comes back with the tab's EditorState; only the scroll
+  // position lives in the DOM
+  private restoreEditorState(tabId: number, paneId: number): void {
+    const tab = this.tabManager.findTabById(tabId);
+    if (!tab) return;
 
     // Restore scroll position (with a small delay to ensure DOM is ready)
     if (tab.scrollTop !== undefined) {
       requestAnimationFrame(() => {
-        this.editorView.scrollDOM.scrollTop = tab.scrollTop || 0;
+        this.editorViews[paneId].scrollDOM.scrollTop = tab.scrollTop || 0;
+      });
+    }
+  }
+
+  // ========================================================================
+  // Find and Replace
+  // ========================================================================
+
+  public openFind(): void {
+    openSearchPanel(this.editorView);
+  }
+
+  private findInAllTabs(query: SearchQuery): TabSearchMatch[] {
+    const matches: TabSearchMatch[] = [];
+    for (const tab of this.tabManager.getAllTabs()) {
+      const limit = SEARCH_CONFIG.maxTabResults - matches.length;
+      if (limit <= 0) break;
+      matches.push(...findTabMatches(tab, this.getTabDoc(tab), query, limit));
+    }
+    return matches;
+  }
+
+  // Match positions are offsets into the document CodeMirror holds, which
+  // for a shown tab is the one in its view
+  private getTabDoc(tab: Tab): Text {
+    const view = this.getViewsShowingTab(tab.id)[0];
+    if (view) return view.state.doc;
+    return tab.editorState?.doc || Text.of(tab.content.split(/\r\n?|\n/));
+  }
+
+  private jumpToSearchMatch(match: TabSearchMatch, query: SearchQuery): void {
+    const selectMatch = () => {
+      this.editorView.dispatch({
+        selection: { anchor: match.from, head: match.to },
+        effects: setSearchQuery.of(query),
+        scrollIntoView: true,
       });
+      this.editorView.focus();
+    };
+
+    // A pane already showing the tab is used as it is
+    const pane = this.paneManager.getPanesShowing(match.tabId)[0];
+    if (pane) {
+      this.focusPane(pane.id);
+      selectMatch();
+      return;
     }
+
+    this.switchToTab(match.tabId);
+    // The panel belongs to the previous tab's state
+    openSearchPanel(this.editorView);
+    // After the tab's scroll position has been restored
+    requestAnimationFrame(selectMatch);
   }
 
   // ========================================================================
@@ -223,11 +559,12 @@ export class EditorManager {
 
   private setZoom(zoomLevel: number): void {
     this.currentZoom = zoomLevel;
-    const container = document.getElementById("editor-container");
-    if (container) {
-      const fontSize = (zoomLevel / 100) * ZOOM_CONFIG.baseFontSize;
-      container.style.fontSize = `${fontSize}px`;
-    }
+    const fontSize = (zoomLevel / 100) * ZOOM_CONFIG.baseFontSize;
+    document
+      .querySelectorAll<HTMLElement>(".editor-container")
+      .forEach((container) => {
+        container.style.fontSize = `${fontSize}px`;
+      });
     this.saveZoomLevel();
     console.log(`Zoom set to ${zoomLevel}% (${(zoomLevel / 100) * ZOOM_CONFIG.baseFontSize}px)`);
   }
@@ -263,57 +600,37 @@ export class EditorManager {
     path: string | null = null,
     content: string = ""
   ): void {
-    // Save current tab state before creating new tab
-    this.saveEditorState();
-
     const tab = this.tabManager.createTab(name, path, content);
-    this.updateEditorContent(tab.content);
-    this.updateLanguage(tab.path);
-    this.renderTabs();
-    this.updateTitle(tab.name);
+    this.detectLanguage(tab);
 
-    // New tabs start at position 0
-    this.restoreEditorState(tab.id);
+    // New tabs open in the focused pane and start at position 0
+    this.showTabInPane(tab.id, this.paneManager.getFocusedPaneId());
+    this.showFocusedTab();
+    this.renderTabs();
   }
 
-  public switchToTab(tabId: number): void {
-    // Save current tab state before switching
-    this.saveEditorState();
-
-    if (!this.tabManager.switchToTab(tabId)) return;
-
-    const tab = this.tabManager.getActiveTab();
-    if (!tab) return;
-
-    this.updateEditorContent(tab.content);
-    this.updateLanguage(tab.path);
+  public switchToTab(
+    tabId: number,
+    paneId: number = this.paneManager.getFocusedPaneId()
+  ): void {
+    this.focusPane(paneId);
+    this.showTabInPane(tabId, paneId);
+    this.showFocusedTab();
     this.renderTabs();
-    this.updateTitle(tab.name);
-
-    // Restore the saved state for this tab
-    this.restoreEditorState(tabId);
   }
 
-  public async closeTab(tabId: number): Promise<void> {
-    const wasActive = this.tabManager.getActiveTabId() === tabId;
-    const closed = await this.tabManager.closeTab(tabId);
-
-    if (!closed) return;
-
-    if (wasActive) {
-      if (this.tabManager.hasNoTabs()) {
-        this.createNewTab();
-      } else {
-        const newActiveTab = this.tabManager.getActiveTab();
-        if (newActiveTab) {
-          this.updateEditorContent(newActiveTab.content);
-          this.updateLanguage(newActiveTab.path);
-          this.updateTitle(newActiveTab.name);
-          this.restoreEditorState(newActiveTab.id);
-        }
-      }
+  public async closeTab(
+    tabId: number,
+    paneId: number = this.paneManager.getFocusedPaneId()
+  ): Promise<void> {
+    // A tab still open in the other pane only leaves this pane's strip
+    if (!this.paneManager.isOpenInOtherPane(paneId, tabId)) {
+      const closed = await this.tabManager.closeTab(tabId);
+      if (!closed) return;
     }
 
+    this.removeTabFromPane(tabId, paneId);
+    this.showFocusedTab();
     this.renderTabs();
   }
 
@@ -324,18 +641,12 @@ export class EditorManager {
     }
   }
 
+  // Cycles through the focused pane's tabs
   public switchToNextTab(): void {
-    // Save current tab state before switching
-    this.saveEditorState();
-
-    this.tabManager.switchToNextTab();
-    const activeTab = this.tabManager.getActiveTab();
-    if (activeTab) {
-      this.updateEditorContent(activeTab.content);
-      this.updateLanguage(activeTab.path);
-      this.renderTabs();
-      this.updateTitle(activeTab.name);
-      this.restoreEditorState(activeTab.id);
+    const paneId = this.paneManager.getFocusedPaneId();
+    const nextTabId = this.paneManager.getNextTabId(paneId);
+    if (nextTabId !== null) {
+      this.switchToTab(nextTabId, paneId);
     }
   }
 
@@ -343,7 +654,8 @@ export class EditorManager {
     const activeTabId = this.tabManager.getActiveTabId();
     if (activeTabId !== null) {
       // Prevent saving editor state when just renaming
-      this.tabRenderer.startRenaming(activeTabId);
+      const paneId = this.paneManager.getFocusedPaneId();
+      this.tabRenderers[paneId].startRenaming(activeTabId);
     }
   }
 
@@ -358,16 +670,16 @@ export class EditorManager {
         await this.fileService.renameFile(tab.path, newPath);
 
         // Update tab with new path and name
-        this.tabManager.updateTabPath(tabId, newPath, newName);
+        this.updateTabPath(tab, newPath, newName);
 
         // Update language highlighting if extension changed
-        this.updateLanguage(newPath);
+        this.updateLanguage(tab);
       } else {
         // Just rename the tab (unsaved file)
         this.tabManager.updateTabName(tabId, newName);
 
         // Update language highlighting based on new name
-        this.updateLanguage(newName);
+        this.updateLanguage(tab);
       }
 
       this.renderTabs();
@@ -389,6 +701,429 @@ export class EditorManager {
     }
   }
 
+  // ========================================================================
+  // Split Editor
+  // ========================================================================
+
+  // Opens the second pane with the active tab, or changes the direction of
+  // an existing split
+  public splitEditor(direction: SplitDirection): void {
+    const activeTab = this.tabManager.getActiveTab();
+    if (!activeTab) return;
+
+    const wasSplit = this.paneManager.isSplit();
+    this.paneManager.split(direction, activeTab.id);
+    this.renderPanes();
+
+    if (!wasSplit) {
+      const [first, second] = this.editorViews;
+      this.showTabState(activeTab, 1);
+      second.dispatch({
+        selection: first.state.selection,
+        scrollIntoView: true,
+      });
+    }
+
+    this.renderTabs();
+    this.editorView.focus();
+  }
+
+  public toggleSplit(): void {
+    if (this.paneManager.isSplit()) {
+      this.closeSplit();
+    } else {
+      this.splitEditor("right");
+    }
+  }
+
+  // The remaining pane keeps the tabs of both
+  public closeSplit(): void {
+    if (!this.paneManager.isSplit()) return;
+
+    const first = this.paneManager.getPane(0);
+    const shownTabId = first.activeTabId;
+    this.saveEditorState(0);
+    this.saveEditorState(1);
+
+    this.paneManager.unsplit();
+    this.editorViews[1].setState(EditorState.create());
+
+    const tab =
+      first.activeTabId !== null
+        ? this.tabManager.findTabById(first.activeTabId)
+        : undefined;
+    if (tab && tab.id !== shownTabId) {
+      this.showTabState(tab, 0);
+      this.restoreEditorState(tab.id, 0);
+    }
+
+    this.renderPanes();
+    this.showFocusedTab();
+    this.renderTabs();
+    this.editorView.focus();
+  }
+
+  // Without a split, this opens one and moves the tab into the new pane
+  public moveTabToOtherPane(): void {
+    const activeTabId = this.tabManager.getActiveTabId();
+    if (activeTabId === null) return;
+
+    const paneId = this.paneManager.getFocusedPaneId();
+    const toPaneId = this.paneManager.isSplit()
+      ? this.paneManager.getOtherPaneId(paneId)
+      : 1;
+    if (!this.paneManager.isSplit()) this.splitEditor("right");
+    this.moveTab(activeTabId, toPaneId);
+  }
+
+  // Shows the tab in the given pane and removes it from the other one,
+  // unless it is the only tab there
+  private moveTab(tabId: number, toPaneId: number): void {
+    const fromPaneId = this.paneManager.getOtherPaneId(toPaneId);
+    const fromPane = this.paneManager.getPane(fromPaneId);
+    if (!this.paneManager.isSplit() || !fromPane.tabIds.includes(tabId)) {
+      return;
+    }
+
+    this.focusPane(toPaneId);
+    this.showTabInPane(tabId, toPaneId);
+    if (fromPane.tabIds.length > 1) {
+      this.removeTabFromPane(tabId, fromPaneId);
+    }
+    this.showFocusedTab();
+    this.renderTabs();
+  }
+
+  private focusPane(paneId: number): void {
+    if (this.paneManager.getFocusedPaneId() === paneId) return;
+
+    this.paneManager.focusPane(paneId);
+    this.showFocusedTab();
+    this.renderPanes();
+  }
+
+  // The active tab in TabManager is always the one the focused pane shows,
+  // so saving, running and the status bar follow focus
+  private showFocusedTab(): void {
+    const tabId = this.paneManager.getFocusedPane().activeTabId;
+    if (tabId === null || !this.tabManager.switchToTab(tabId)) return;
+
+    const tab = this.tabManager.getActiveTab();
+    if (!tab) return;
+
+    this.statusBarRenderer.render(tab);
+    this.updateTitle(tab.name);
+  }
+
+  // Adds the tab to the pane's strip if needed
+  private showTabInPane(tabId: number, paneId: number): void {
+    const tab = this.tabManager.findTabById(tabId);
+    if (!tab || this.paneManager.getPane(paneId).activeTabId === tabId) return;
+
+    this.saveEditorState(paneId);
+    this.paneManager.showTab(paneId, tabId);
+    this.showTabState(tab, paneId);
+    this.restoreEditorState(tabId, paneId);
+  }
+
+  // The pane shows its previous tab instead. An emptied pane closes the
+  // split, and closing the last tab of all opens a new one.
+  private removeTabFromPane(tabId: number, paneId: number): void {
+    const pane = this.paneManager.getPane(paneId);
+    const wasShown = pane.activeTabId === tabId;
+    if (wasShown) this.saveEditorState(paneId);
+    this.paneManager.removeTab(paneId, tabId);
+
+    if (pane.activeTabId === null) {
+      if (this.paneManager.isSplit()) {
+        this.closeSplit();
+      } else {
+        this.createNewTab();
+      }
+      return;
+    }
+
+    const tab = this.tabManager.findTabById(pane.activeTabId);
+    if (wasShown && tab) {
+      this.showTabState(tab, paneId);
+      this.restoreEditorState(tab.id, paneId);
+    }
+  }
+
+  private getViewsShowingTab(tabId: number): EditorView[] {
+    return this.paneManager
+      .getPanesShowing(tabId)
+      .map((pane) => this.editorViews[pane.id]);
+  }
+
+  // Both panes can show the same tab, each with its own state, so edits in
+  // one are replayed in the other. Replayed edits stay out of the undo
+  // history; each pane undoes its own edits.
+  private syncPanes(update: ViewUpdate, tabId: number): void {
+    const otherViews = this.getViewsShowingTab(tabId).filter(
+      (view) => view !== update.view
+    );
+
+    update.transactions.forEach((transaction) => {
+      if (!transaction.docChanged || transaction.annotation(syncedChange)) {
+        return;
+      }
+      otherViews.forEach((view) =>
+        view.dispatch({
+          changes: transaction.changes,
+          annotations: [
+            syncedChange.of(true),
+            Transaction.addToHistory.of(false),
+          ],
+        })
+      );
+    });
+  }
+
+  private renderPanes(): void {
+    const direction = this.paneManager.getDirection();
+    const area = document.getElementById("editor-area");
+    area?.classList.toggle("split-right", direction === "right");
+    area?.classList.toggle("split-down", direction === "down");
+
+    const focusedPaneId = this.paneManager.getFocusedPaneId();
+    [0, 1].forEach((paneId) => {
+      document
+        .getElementById(`editor-pane-${paneId}`)
+        ?.classList.toggle("focused", paneId === focusedPaneId);
+    });
+  }
+
+  // ========================================================================
+  // Commands
+  // ========================================================================
+
+  private registerCommands(): void {
+    const commands: Command[] = [
+      {
+        id: "file.new",
+        category: "File",
+        title: "New File",
+        run: () => this.createNewTab(),
+      },
+      {
+        id: "file.open",
+        category: "File",
+        title: "Open File...",
+        run: () => this.openFile(),
+      },
+      {
+        id: "file.save",
+        category: "File",
+        title: "Save",
+        run: () => this.saveFile(),
+      },
+      {
+        id: "tab.close",
+        category: "Tab",
+        title: "Close Tab",
+        run: () => this.closeActiveTab(),
+      },
+      {
+        id: "tab.next",
+        category: "Tab",
+        title: "Next Tab",
+        run: () => this.switchToNextTab(),
+      },
+      {
+        id: "tab.rename",
+        category: "Tab",
+        title: "Rename Tab",
+        run: () => this.renameActiveTab(),
+      },
+      {
+        id: "edit.find",
+        category: "Edit",
+        title: "Find and Replace",
+        run: () => this.openFind(),
+      },
+      {
+        id: "edit.goToLine",
+        category: "Edit",
+        title: "Go to Line...",
+        run: () => this.commandPalette.show(":"),
+      },
+      {
+        id: "view.zoomIn",
+        category: "View",
+        title: "Zoom In",
+        run: () => this.zoomIn(),
+      },
+      {
+        id: "view.zoomOut",
+        category: "View",
+        title: "Zoom Out",
+        run: () => this.zoomOut(),
+      },
+      {
+        id: "view.splitRight",
+        category: "View",
+        title: "Split Right",
+        run: () => this.splitEditor("right"),
+      },
+      {
+        id: "view.splitDown",
+        category: "View",
+        title: "Split Down",
+        run: () => this.splitEditor("down"),
+      },
+      {
+        id: "view.toggleSplit",
+        category: "View",
+        title: "Toggle Split",
+        run: () => this.toggleSplit(),
+      },
+      {
+        id: "view.moveTabToOtherPane",
+        category: "View",
+        title: "Move Tab to Other Pane",
+        run: () => this.moveTabToOtherPane(),
+      },
+      {
+        id: "view.closeSplit",
+        category: "View",
+        title: "Close Split",
+        isEnabled: () => this.paneManager.isSplit(),
+        run: () => this.closeSplit(),
+      },
+      {
+        id: "runner.show",
+        category: "Run",
+        title: "Open Code Runner",
+        run: () => this.showRunnerModal(),
+      },
+      {
+        id: "runner.hide",
+        category: "Run",
+        title: "Close Code Runner",
+        isEnabled: () => this.modalManager.isRunnerModalOpen(),
+        run: () => this.modalManager.hideRunnerModal(),
+      },
+      {
+        id: "runner.run",
+        category: "Run",
+        title: "Run Code",
+        run: () => {
+          this.showRunnerModal();
+          this.runCode();
+        },
+      },
+      {
+        id: "runner.runAllTestCases",
+        category: "Run",
+        title: "Run All Test Cases",
+        run: () => {
+          this.showRunnerModal();
+          this.runAllTestCases();
+        },
+      },
+      {
+        id: "runner.runSelection",
+        category: "Run",
+        title: "Run Selection",
+        run: () => {
+          this.showRunnerModal();
+          this.runSelection();
+        },
+      },
+      {
+        id: "settings.show",
+        category: "Preferences",
+        title: "Open Settings",
+        run: () => this.settingsModalManager.showSettingsModal(),
+      },
+      {
+        id: "palette.show",
+        category: "View",
+        title: "Command Palette",
+        run: () => this.commandPalette.show(),
+      },
+    ];
+
+    commands.forEach((command) => this.registerCommand(command));
+    this.registerTemplateCommands();
+  }
+
+  // One command per template, re-registered whenever templates change
+  private registerTemplateCommands(): void {
+    this.commands
+      .getAll()
+      .filter((command) => command.id.startsWith("template."))
+      .forEach((command) => this.commands.unregister(command.id));
+
+    this.settingsManager.getAllTemplates().forEach((template) =>
+      this.registerCommand({
+        id: `template.${template.key}`,
+        category: "Template",
+        title: template.name,
+        run: () => this.insertTemplate(template.key),
+      })
+    );
+  }
+
+  // The keybinding comes from the settings, which fall back to the defaults
+  private registerCommand(command: Command): void {
+    this.commands.register({
+      ...command,
+      keybinding: this.settingsManager.getKeybinding(command.id),
+    });
+  }
+
+  private applyKeybindings(): void {
+    this.commands.getAll().forEach((command) => this.registerCommand(command));
+  }
+
+  // Enabled commands, open tabs and themes
+  private getPaletteItems(): PaletteItem[] {
+    const commands = this.commands
+      .getAll()
+      .filter(
+        (command) =>
+          command.id !== "palette.show" && this.commands.isEnabled(command.id)
+      )
+      .map((command) => ({
+        label: command.title,
+        category: command.category,
+        detail: command.keybinding,
+        run: () => this.commands.execute(command.id),
+      }));
+
+    const tabs = this.tabManager.getAllTabs().map((tab) => ({
+      label: tab.name,
+      category: "Go to Tab",
+      detail: tab.path ?? undefined,
+      run: () => this.switchToTab(tab.id),
+    }));
+
+    const currentTheme = this.settingsManager.getTheme();
+    const themes = AVAILABLE_THEMES.map((theme) => ({
+      label: theme.name,
+      category: "Theme",
+      detail: theme.id === currentTheme ? "Current" : undefined,
+      run: () => this.handleThemeChanged(theme.id),
+    }));
+
+    return [...commands, ...tabs, ...themes];
+  }
+
+  // Line numbers past the end go to the last line
+  private goToLine(lineNumber: number): void {
+    const view = this.editorView;
+    const { doc } = view.state;
+    const line = doc.line(Math.min(Math.max(lineNumber, 1), doc.lines));
+
+    view.dispatch({
+      selection: { anchor: line.from },
+      effects: EditorView.scrollIntoView(line.from, { y: "center" }),
+    });
+    view.focus();
+  }
+
   // ========================================================================
   // File Operations
   // ========================================================================
@@ -416,14 +1151,14 @@ export class EditorManager {
         if (!filePath) return;
 
         const fileName = extractFileName(filePath);
-        this.tabManager.updateTabPath(activeTab.id, filePath, fileName);
+        this.updateTabPath(activeTab, filePath, fileName);
       }
 
       const content = this.editorView.state.doc.toString();
       await this.fileService.saveFile(filePath, content);
 
       this.tabManager.markTabSaved(activeTab.id, content);
-      this.updateLanguage(filePath);
+      this.updateLanguage(activeTab);
       this.renderTabs();
       this.updateTitle(activeTab.name);
 
@@ -437,22 +1172,19 @@ export class EditorManager {
   // Template Operations
   // ========================================================================
 
+  // Inserted as a snippet, so Tab moves between the template's tab stops
   public insertTemplate(templateType: string): void {
-    const template = this.templateService.getTemplate(templateType);
+    const activeTab = this.tabManager.getActiveTab();
+    const template = this.templateService.getSnippetTemplate(
+      templateType,
+      activeTab?.name || EDITOR_CONFIG.defaultFileName
+    );
     if (!template) return;
 
     const currentPos = this.editorView.state.selection.main.head;
+    snippet(template)(this.editorView, null, currentPos, currentPos);
+    this.editorView.focus();
 
-    this.editorView.dispatch({
-      changes: {
-        from: currentPos,
-        to: currentPos,
-        insert: template,
-      },
-      selection: { anchor: currentPos + template.length },
-    });
-
-    const activeTab = this.tabManager.getActiveTab();
     if (activeTab) {
       this.tabManager.markTabModified(activeTab.id);
       this.renderTabs();
@@ -460,11 +1192,33 @@ export class EditorManager {
   }
 
   private handleTemplatesChanged(): void {
-    // Refresh the template dropdown
+    // Refresh the template commands and dropdown. Keybindings are saved
+    // alongside templates, so every command picks up its new one
+    this.registerTemplateCommands();
+    this.applyKeybindings();
+    this.applyKeymapMode();
     this.eventHandlers.refreshTemplateDropdown();
+
+    // Snippets and the autocompletion toggle are saved alongside templates
+    this.tabManager.getAllTabs().forEach((tab) => this.updateLanguage(tab));
     console.log("Templates updated and dropdown refreshed!");
   }
 
+  // Every tab's state and both panes switch to the saved keymap mode. An
+  // unchanged mode is left alone, so Vim keeps its mode and marks
+  private applyKeymapMode(): void {
+    const mode = this.settingsManager.getKeymapMode();
+    if (mode === this.keymapMode) return;
+
+    this.keymapMode = mode;
+    const keymapExtension = getKeymapExtension(mode);
+    this.tabManager
+      .getAllTabs()
+      .forEach((tab) =>
+        this.reconfigureTab(tab, [this.keymapConf.reconfigure(keymapExtension)])
+      );
+  }
+
   private handleThemeChanged(theme: string): void {
     console.log("Theme changed to:", theme);
 
@@ -473,9 +1227,11 @@ export class EditorManager {
 
     // Update the editor theme
     const themeExtension = getThemeExtension(theme);
-    this.editorView.dispatch({
-      effects: this.themeConf.reconfigure(themeExtension),
-    });
+    this.tabManager
+      .getAllTabs()
+      .forEach((tab) =>
+        this.reconfigureTab(tab, [this.themeConf.reconfigure(themeExtension)])
+      );
 
     console.log("Editor theme updated!");
   }
@@ -484,54 +1240,251 @@ export class EditorManager {
   // Code Execution
   // ========================================================================
 
-  private async runCode(): Promise<void> {
+  private showRunnerModal(): void {
+    this.modalManager.showRunnerModal();
+    this.refreshRuntimeOptions();
+    this.refreshBuildProfiles();
+    this.renderAttachments();
+    this.renderTestCases();
+    this.modalManager.setComparisonControls(
+      this.settingsManager.getComparisonSettings(),
+      this.settingsManager.getDiffView()
+    );
+    this.modalManager.setWrapSelection(this.settingsManager.getWrapSnippets());
+    this.renderStressOptions();
+    this.renderRunHistory();
+  }
+
+  private async refreshRuntimeOptions(): Promise<void> {
     const activeTab = this.tabManager.getActiveTab();
-    if (!activeTab) {
-      this.modalManager.displayOutput("No active file to run!", "error");
+    const language = activeTab ? this.getTabLanguage(activeTab) : "";
+
+    if (!language) {
+      this.modalManager.disableRuntimeSelect();
+      this.modalManager.setRuntimeStatus("No runnable language");
+      return;
+    }
+
+    this.modalManager.disableRuntimeSelect();
+
+    if (this.executionService.isLocal(language)) {
+      this.modalManager.setRuntimeStatus("Using local toolchain");
+      return;
+    }
+
+    this.modalManager.setRuntimeStatus("Loading runtimes...");
+
+    try {
+      const versions = await this.pistonService.getLanguageVersions(language);
+      this.modalManager.setRuntimeOptions(
+        versions,
+        this.settingsManager.getRuntimeVersion(language)
+      );
+
+      if (versions.length === 0) {
+        this.modalManager.setRuntimeStatus(
+          `${language} is not installed on this server`,
+          true
+        );
+      } else {
+        this.modalManager.setRuntimeStatus(language);
+      }
+    } catch (error) {
+      console.error("Error loading runtimes:", error);
+      this.modalManager.setRuntimeOptions(
+        [],
+        this.settingsManager.getRuntimeVersion(language)
+      );
+      this.modalManager.setRuntimeStatus("Could not reach Piston server", true);
+    }
+  }
+
+  private handleRuntimeVersionChange(version: string): void {
+    const activeTab = this.tabManager.getActiveTab();
+    const language = activeTab ? this.getTabLanguage(activeTab) : "";
+    if (!language) return;
+
+    this.settingsManager.setRuntimeVersion(language, version);
+  }
+
+  private refreshBuildProfiles(): void {
+    const activeTab = this.tabManager.getActiveTab();
+    const language = activeTab ? this.getTabLanguage(activeTab) : "";
+    if (!language) {
+      this.modalManager.setBuildProfileOptions([], null);
       return;
     }
 
-    const language = getLanguageId(activeTab.path);
+    const isLocal = this.executionService.isLocal(language);
+    const profiles = this.settingsManager
+      .getBuildProfiles(language)
+      .map((profile) => {
+        const { compileArgs, runArgs } = getBuildArgs(language, profile);
+        // Piston only receives the program arguments
+        const summary = [
+          compileArgs.length && isLocal
+            ? `Compile: ${formatArgs(compileArgs)}`
+            : "",
+          runArgs.length ? `Run: ${formatArgs(runArgs)}` : "",
+        ]
+          .filter(Boolean)
+          .join("\n");
+        return { id: profile.id, name: profile.name, summary };
+      });
+
+    this.modalManager.setBuildProfileOptions(
+      profiles,
+      this.settingsManager.getActiveBuildProfile(language).id
+    );
+  }
+
+  private handleBuildProfileChange(profileId: string): void {
+    const activeTab = this.tabManager.getActiveTab();
+    const language = activeTab ? this.getTabLanguage(activeTab) : "";
+    if (!language) return;
+
+    this.settingsManager.setActiveBuildProfile(language, profileId);
+    this.refreshBuildProfiles();
+  }
+
+  // Unsaved tabs have no path, so fall back to the extension in the tab name
+  private getTabLanguage(tab: Tab): string {
+    return getLanguageId(tab);
+  }
+
+  // Shows the appropriate error and returns null when the tab can't be run
+  private getRunnableLanguage(tab: Tab | null): string | null {
+    if (!tab) {
+      this.modalManager.displayOutput("No active file to run!", "error");
+      return null;
+    }
+
+    const language = this.getTabLanguage(tab);
     if (!language) {
       this.modalManager.displayOutput(
-        "Unsupported file type! Supported: .cs, .cpp, .c, .py, .java, .js",
+        `Unsupported file type! Supported: ${formatRunnableExtensions()}, or pick a language in the status bar`,
         "error"
       );
-      return;
+      return null;
     }
 
     if (language === "csharp") {
       this.modalManager.showCSharpWarningModal();
+      return null;
+    }
+
+    return language;
+  }
+
+  private async runCode(skipInputCheck: boolean = false): Promise<void> {
+    const activeTab = this.tabManager.getActiveTab();
+    const language = this.getRunnableLanguage(activeTab);
+    if (!activeTab || !language) return;
+
+    const code = this.editorView.state.doc.toString();
+    await this.executeProgram(activeTab, language, code, {
+      isSelection: false,
+      skipInputCheck,
+      runAgain: () => this.runCode(true),
+    });
+  }
+
+  // Runs only the selected text; the tab's content is never changed.
+  // Diagnostics and run history are skipped since they refer to the file.
+  private async runSelection(skipInputCheck: boolean = false): Promise<void> {
+    const activeTab = this.tabManager.getActiveTab();
+    const language = this.getRunnableLanguage(activeTab);
+    if (!activeTab || !language) return;
+
+    const { from, to } = this.editorView.state.selection.main;
+    const selection = this.editorView.state.sliceDoc(from, to);
+    if (!selection.trim()) {
+      this.modalManager.setOutputStatus("");
+      this.modalManager.displayOutput(
+        "Select the code to run in the editor first.",
+        "error"
+      );
       return;
     }
 
+    const code = this.settingsManager.getWrapSnippets()
+      ? wrapSnippet(language, selection)
+      : selection;
+    await this.executeProgram(activeTab, language, code, {
+      isSelection: true,
+      skipInputCheck,
+      runAgain: () => this.runSelection(true),
+    });
+  }
+
+  private async executeProgram(
+    tab: Tab,
+    language: string,
+    code: string,
+    options: ProgramRunOptions
+  ): Promise<void> {
     const inputTextarea = document.getElementById(
       "code-input"
     ) as HTMLTextAreaElement;
     const stdin = inputTextarea?.value || "";
 
+    if (
+      !options.skipInputCheck &&
+      !stdin.trim() &&
+      expectsInput(language, code)
+    ) {
+      this.modalManager.setOutputStatus("");
+      this.modalManager.displayInputPrompt(
+        () => this.modalManager.showInputSection(),
+        options.runAgain
+      );
+      return;
+    }
+
+    const controller = this.beginRun();
+    if (!controller) return;
+
     this.modalManager.setRunButtonState(true, "Running...");
     this.modalManager.displayOutput("Executing code...", "running");
+    this.modalManager.setOutputStatus("");
+    this.clearDiagnostics(tab);
 
     try {
-      const code = this.editorView.state.doc.toString();
+      const files = this.getSourceFiles(tab, language, code, (message) =>
+        this.modalManager.displayOutput(message, "error")
+      );
+      if (!files) return;
+      const startedAt = performance.now();
+      const result = await this.executionService.executeCode(
+        language,
+        files,
+        stdin,
+        { signal: controller.signal }
+      );
+      const elapsedMs = performance.now() - startedAt;
+      const elapsed = formatElapsed(elapsedMs);
+      const { text, type, label } = this.pistonService.formatOutput(result);
+      this.modalManager.displayOutput(text, type);
 
-      if (expectsInput(code) && !stdin.trim()) {
-        this.modalManager.displayOutput(
-          "This program is waiting for input.\n\nPlease provide input in the Input box before running.",
-          "error"
-        );
+      if (options.isSelection) {
+        this.modalManager.setOutputStatus(`Selection · ${label} · ${elapsed}`);
         return;
       }
 
-      const result = await this.pistonService.executeCode(
-        language,
+      this.modalManager.setOutputStatus(`${label} · ${elapsed}`);
+      this.showDiagnostics(
+        tab,
         code,
-        stdin
+        language,
+        files[0].name,
+        this.getErrorOutput(result)
       );
-      const { text, type } = this.pistonService.formatOutput(result);
-      this.modalManager.displayOutput(text, type);
+      await this.recordRun(tab, code, stdin, result, elapsedMs);
     } catch (error) {
+      if (controller.signal.aborted) {
+        this.modalManager.displayOutput("Run cancelled.", "error");
+        return;
+      }
       console.error("Code execution error:", error);
       this.modalManager.displayOutput(
         `Error: ${error instanceof Error ? error.message : "Failed to execute code"
@@ -539,38 +1492,773 @@ export class EditorManager {
         "error"
       );
     } finally {
+      this.endRun();
       this.modalManager.setRunButtonState(false, "Run Code");
     }
   }
 
+  // Only one run or test batch at a time; the Cancel button aborts it
+  private beginRun(): AbortController | null {
+    if (this.runController) return null;
+
+    this.runController = new AbortController();
+    this.modalManager.setCancelButtonState(true);
+    return this.runController;
+  }
+
+  private endRun(): void {
+    this.runController = null;
+    this.modalManager.setCancelButtonState(false);
+  }
+
+  // A run missing an attachment would fail in confusing ways, so a name
+  // clash stops it with a message instead
+  private getSourceFiles(
+    tab: Tab,
+    language: string,
+    code: string,
+    showError: (message: string) => void
+  ): SourceFile[] | null {
+    const { files, duplicateNames } = buildSourceFiles(
+      language,
+      code,
+      this.tabManager.getAttachedTabs(tab.id)
+    );
+    if (duplicateNames.length > 0) {
+      const names = duplicateNames.map((name) => `"${name}"`).join(", ");
+      showError(
+        `Attached file ${names} of "${tab.name}" has the same name as another file of the run. Rename or detach it.`
+      );
+      return null;
+    }
+    return files;
+  }
+
+  private renderAttachments(): void {
+    const activeTab = this.tabManager.getActiveTab();
+    if (!activeTab) return;
+
+    const language = this.getTabLanguage(activeTab);
+    const mainFileName = language
+      ? getSourceFileName(language, this.editorView.state.doc.toString())
+      : activeTab.name;
+
+    const candidates = this.tabManager
+      .getAllTabs()
+      .filter((tab) => tab.id !== activeTab.id)
+      .map((tab) => ({
+        id: tab.id,
+        name: tab.name,
+        attached: activeTab.attachedTabIds.includes(tab.id),
+      }));
+
+    this.modalManager.renderAttachments(
+      mainFileName,
+      candidates,
+      (tabId, attached) => this.toggleAttachment(tabId, attached)
+    );
+  }
+
+  private toggleAttachment(tabId: number, attached: boolean): void {
+    const activeTab = this.tabManager.getActiveTab();
+    if (!activeTab) return;
+
+    const ids = activeTab.attachedTabIds.filter((id) => id !== tabId);
+    if (attached) ids.push(tabId);
+    this.tabManager.setAttachedTabs(activeTab.id, ids);
+  }
+
+  // ========================================================================
+  // Diagnostics
+  // ========================================================================
+
+  private getErrorOutput(result: PistonExecuteResponse): string {
+    if (result.compile && result.compile.code !== 0) {
+      return result.compile.stderr || result.compile.output || "";
+    }
+    if (result.run.code !== 0 || result.run.signal) {
+      return result.run.stderr;
+    }
+    return "";
+  }
+
+  // Only diagnostics for the entry file can be shown in the editor. They go
+  // to the tab that was run, which may have been switched away from or
+  // edited while it ran; an edited document no longer matches the reported
+  // lines, so it is only listed in the runner output.
+  private showDiagnostics(
+    tab: Tab,
+    code: string,
+    language: string,
+    mainFileName: string,
+    output: string
+  ): void {
+    const diagnostics = parseCompilerOutput(language, output).filter(
+      (d) => !d.file || extractFileName(d.file) === mainFileName
+    );
+
+    if (this.getTabDoc(tab).toString() === code) {
+      this.setTabDiagnostics(tab, diagnostics);
+    }
+    this.modalManager.renderDiagnostics(diagnostics, (d) =>
+      this.jumpToDiagnostic(tab, d)
+    );
+  }
+
+  private clearDiagnostics(tab: Tab): void {
+    this.setTabDiagnostics(tab, []);
+    this.modalManager.renderDiagnostics([], () => {});
+  }
+
+  // Like reconfigureTab: a tab that isn't shown keeps its diagnostics in its
+  // saved state until it is shown again
+  private setTabDiagnostics(tab: Tab, diagnostics: CompilerDiagnostic[]): void {
+    const doc = this.getTabDoc(tab);
+    const editorDiagnostics = diagnostics.map((d) =>
+      this.toEditorDiagnostic(doc, d)
+    );
+
+    const views = this.getViewsShowingTab(tab.id);
+    if (views.length > 0) {
+      views.forEach((view) =>
+        view.dispatch(setDiagnostics(view.state, editorDiagnostics))
+      );
+    } else if (tab.editorState) {
+      this.tabManager.setEditorState(
+        tab.id,
+        tab.editorState.update(
+          setDiagnostics(tab.editorState, editorDiagnostics)
+        ).state
+      );
+    }
+  }
+
+  // Underlines the token at the reported column, or the whole line if the
+  // compiler didn't give one
+  private toEditorDiagnostic(
+    doc: Text,
+    diagnostic: CompilerDiagnostic
+  ): Diagnostic {
+    const line = doc.line(Math.min(Math.max(diagnostic.line, 1), doc.lines));
+
+    let from = line.from;
+    let to = line.to;
+    if (diagnostic.column !== null) {
+      from = Math.min(line.from + diagnostic.column - 1, line.to);
+      const token = /^(\w+|\S)/.exec(line.text.slice(from - line.from));
+      to = token ? from + token[0].length : from;
+    }
+
+    return {
+      from,
+      to,
+      severity: diagnostic.severity,
+      message: diagnostic.message,
+      source: diagnostic.file || undefined,
+    };
+  }
+
+  private jumpToDiagnostic(tab: Tab, diagnostic: CompilerDiagnostic): void {
+    if (!this.tabManager.findTabById(tab.id)) return;
+    if (this.tabManager.getActiveTabId() !== tab.id) {
+      this.switchToTab(tab.id);
+    }
+
+    const { from } = this.toEditorDiagnostic(this.getTabDoc(tab), diagnostic);
+    this.modalManager.hideRunnerModal();
+    this.editorView.dispatch({
+      selection: { anchor: from },
+      scrollIntoView: true,
+    });
+    this.editorView.focus();
+  }
+
+  // ========================================================================
+  // Test Cases
+  // ========================================================================
+
+  private addTestCase(): void {
+    const activeTab = this.tabManager.getActiveTab();
+    if (!activeTab) return;
+
+    this.tabManager.addTestCase(activeTab.id);
+    this.renderTestCases();
+
+    // Focus the input of the new case
+    const textareas = document.querySelectorAll<HTMLTextAreaElement>(
+      "#testcase-list .testcase-item:last-child .testcase-textarea"
+    );
+    textareas[0]?.focus();
+  }
+
+  private updateTestCase(
+    testCaseId: number,
+    changes: Partial<Omit<TestCase, "id">>
+  ): void {
+    const activeTab = this.tabManager.getActiveTab();
+    if (!activeTab) return;
+
+    this.tabManager.updateTestCase(activeTab.id, testCaseId, changes);
+    // Edited cases no longer match their last verdict
+    this.testResults.delete(testCaseId);
+  }
+
+  private removeTestCase(testCaseId: number): void {
+    const activeTab = this.tabManager.getActiveTab();
+    if (!activeTab) return;
+
+    this.tabManager.removeTestCase(activeTab.id, testCaseId);
+    this.testResults.delete(testCaseId);
+    this.renderTestCases();
+  }
+
+  private renderTestCases(): void {
+    const activeTab = this.tabManager.getActiveTab();
+    this.testCaseRenderer.render(activeTab?.testCases || [], this.testResults);
+    this.modalManager.setProblemInfo(
+      activeTab?.problem ?? null,
+      activeTab
+        ? this.getTestTimeouts(activeTab, this.getTabLanguage(activeTab))?.run
+        : undefined
+    );
+
+    const checkerCandidates = this.tabManager
+      .getAllTabs()
+      .filter((tab) => tab.id !== activeTab?.id)
+      .map((tab) => ({ id: tab.id, name: tab.name }));
+    this.modalManager.setCheckerOptions(
+      checkerCandidates,
+      activeTab?.checkerTabId ?? null
+    );
+  }
+
+  // Verdicts from the previous checker (or comparison) no longer apply
+  private handleCheckerChange(checkerTabId: number | null): void {
+    const activeTab = this.tabManager.getActiveTab();
+    if (!activeTab) return;
+
+    this.tabManager.setChecker(activeTab.id, checkerTabId);
+    activeTab.testCases.forEach((testCase) =>
+      this.testResults.delete(testCase.id)
+    );
+    this.renderTestCases();
+  }
+
+  // An imported problem's tests may run past the judge's time limit, with
+  // some slack, when that is longer than the run timeout in Settings
+  private getTestTimeouts(
+    tab: Tab,
+    language: string
+  ): ExecutionTimeouts | undefined {
+    const timeLimit = tab.problem?.timeLimit;
+    if (!timeLimit) return undefined;
+
+    const timeouts = this.settingsManager.getTimeouts(language);
+    const withSlack =
+      timeLimit * TIME_LIMIT_SLACK.factor + TIME_LIMIT_SLACK.extra;
+    return { ...timeouts, run: Math.max(timeouts.run, withSlack) };
+  }
+
+  private getCheckerProgram(tab: Tab): CheckerProgram | null {
+    const checkerTab = this.tabManager.getCheckerTab(tab.id);
+    if (!checkerTab) {
+      this.modalManager.displayOutput(
+        "The checker tab is no longer open. Pick another checker or compare output.",
+        "error"
+      );
+      return null;
+    }
+
+    const language = this.getTabLanguage(checkerTab);
+    if (!language || language === "csharp") {
+      this.modalManager.displayOutput(
+        `Checker "${checkerTab.name}" is not a runnable file. Supported: ${formatRunnableExtensions()}`,
+        "error"
+      );
+      return null;
+    }
+
+    const files = this.getSourceFiles(
+      checkerTab,
+      language,
+      checkerTab.content,
+      (message) => this.modalManager.displayOutput(message, "error")
+    );
+    if (!files) return null;
+
+    return {
+      language,
+      files,
+      buildArgs: getBuildArgs(
+        language,
+        this.settingsManager.getActiveBuildProfile(language)
+      ),
+    };
+  }
+
+  private async runAllTestCases(): Promise<void> {
+    const activeTab = this.tabManager.getActiveTab();
+    const language = this.getRunnableLanguage(activeTab);
+    if (!activeTab || !language) return;
+
+    const testCases = [...activeTab.testCases];
+    if (testCases.length === 0) {
+      this.modalManager.displayOutput(
+        'No test cases to run. Click "+ Add" to create one.',
+        "error"
+      );
+      return;
+    }
+
+    let checker: CheckerProgram | undefined;
+    if (activeTab.checkerTabId !== null) {
+      const program = this.getCheckerProgram(activeTab);
+      if (!program) return;
+      checker = program;
+    }
+
+    const controller = this.beginRun();
+    if (!controller) return;
+
+    testCases.forEach((testCase) => this.testResults.delete(testCase.id));
+    this.renderTestCases();
+
+    this.modalManager.setRunAllButtonState(true, "Running...");
+    this.modalManager.setOutputStatus("");
+    this.clearDiagnostics(activeTab);
+    this.modalManager.displayOutput(
+      `Running ${testCases.length} test case(s)...`,
+      "running"
+    );
+
+    try {
+      const code = this.editorView.state.doc.toString();
+      const files = this.getSourceFiles(activeTab, language, code, (message) =>
+        this.modalManager.displayOutput(message, "error")
+      );
+      if (!files) return;
+      const results = await this.judgeService.runTestCases(
+        language,
+        files,
+        testCases,
+        (result) => {
+          this.testResults.set(result.testCaseId, result);
+          this.renderTestCases();
+        },
+        controller.signal,
+        checker,
+        this.getTestTimeouts(activeTab, language)
+      );
+
+      const passed = this.judgeService.countPassed(results);
+      const failure = results.find(
+        (r) => r.verdict === "CE" || r.verdict === "RE"
+      );
+      if (failure) {
+        this.showDiagnostics(
+          activeTab,
+          code,
+          language,
+          files[0].name,
+          failure.stderr
+        );
+      }
+
+      const wrongAnswer = results.find((r) => r.verdict === "WA");
+      const checkerFailure = results.find((r) => r.verdict === "FAIL");
+      if (results[0]?.verdict === "CE") {
+        this.modalManager.displayOutput(
+          `Compilation Failed\n\n${results[0].stderr}`,
+          "error"
+        );
+      } else if (checkerFailure) {
+        const index = results.indexOf(checkerFailure);
+        this.modalManager.displayOutput(
+          `Checker failed on Test #${index + 1}\n\n${checkerFailure.checkerMessage}`,
+          "error"
+        );
+      } else if (wrongAnswer) {
+        this.showTestCaseDiff(
+          wrongAnswer.testCaseId,
+          `Passed ${passed}/${results.length} test case(s)`
+        );
+      } else {
+        this.modalManager.displayOutput(
+          `Passed ${passed}/${results.length} test case(s)`,
+          passed === results.length ? "success" : "error"
+        );
+      }
+    } catch (error) {
+      if (controller.signal.aborted) {
+        this.modalManager.displayOutput(
+          `Run cancelled after ${this.countFinished(testCases)}/${testCases.length} test case(s).`,
+          "error"
+        );
+        return;
+      }
+      console.error("Test run error:", error);
+      this.modalManager.displayOutput(
+        `Error: ${error instanceof Error ? error.message : "Failed to run test cases"
+        }`,
+        "error"
+      );
+    } finally {
+      this.endRun();
+      this.modalManager.setRunAllButtonState(false, "Run All");
+    }
+  }
+
+  private countFinished(testCases: TestCase[]): number {
+    return testCases.filter((testCase) => this.testResults.has(testCase.id))
+      .length;
+  }
+
+  private showTestCaseDiff(testCaseId: number, summary?: string): void {
+    const testCases = this.tabManager.getActiveTab()?.testCases || [];
+    const index = testCases.findIndex((t) => t.id === testCaseId);
+    const result = this.testResults.get(testCaseId);
+    if (index === -1 || !result) return;
+
+    const testCase = testCases[index];
+    const comparison = compareOutputs(
+      result.stdout,
+      testCase.expectedOutput,
+      this.settingsManager.getComparisonSettings()
+    );
+    const title = result.checkerMessage
+      ? `Test #${index + 1} · checker: ${result.checkerMessage.split("\n")[0]}`
+      : `Test #${index + 1}`;
+    this.outputDiffRenderer.render(
+      summary ? `${summary} · ${title}` : title,
+      testCase.expectedOutput,
+      result.stdout,
+      comparison,
+      this.settingsManager.getDiffView()
+    );
+    this.diffTestCaseId = testCaseId;
+  }
+
+  // Finished results are judged again with the new settings instead of
+  // re-running the programs
+  private handleComparisonChange(changes: Partial<ComparisonSettings>): void {
+    this.settingsManager.setComparisonSettings(changes);
+    this.modalManager.setComparisonControls(
+      this.settingsManager.getComparisonSettings(),
+      this.settingsManager.getDiffView()
+    );
+
+    const testCases = this.tabManager.getActiveTab()?.testCases || [];
+    testCases.forEach((testCase) => {
+      const result = this.testResults.get(testCase.id);
+      if (!result) return;
+      this.testResults.set(
+        testCase.id,
+        this.judgeService.rejudge(result, testCase.expectedOutput)
+      );
+    });
+    this.renderTestCases();
+    this.refreshTestCaseDiff();
+  }
+
+  private handleDiffViewChange(view: DiffView): void {
+    this.settingsManager.setDiffView(view);
+    this.refreshTestCaseDiff();
+  }
+
+  // Redraws the diff if it is still the content of the output area
+  private refreshTestCaseDiff(): void {
+    if (this.diffTestCaseId === null || !this.outputDiffRenderer.isShown()) {
+      return;
+    }
+    this.showTestCaseDiff(this.diffTestCaseId);
+  }
+
+  // ========================================================================
+  // Stress Testing
+  // ========================================================================
+
+  private switchRunnerPanel(panel: RunnerPanel): void {
+    if (panel === "stress") {
+      this.renderStressOptions();
+    }
+    if (panel === "history") {
+      this.renderRunHistory();
+    }
+    this.modalManager.switchRunnerPanel(panel);
+  }
+
+  private renderStressOptions(): void {
+    if (this.stressTestService.isRunning()) return;
+
+    const tabs = this.tabManager
+      .getAllTabs()
+      .map((tab) => ({ id: tab.id, name: tab.name }));
+    this.modalManager.renderStressOptions(tabs, this.stressSelection);
+  }
+
+  private async startStressTest(): Promise<void> {
+    if (this.stressTestService.isRunning()) return;
+
+    this.stressSelection = this.modalManager.readStressSelection();
+    const { generatorTabId, bruteTabId, solutionTabId, iterations } =
+      this.stressSelection;
+
+    const generator = this.getStressProgram(generatorTabId, "generator");
+    const brute = this.getStressProgram(bruteTabId, "brute force");
+    const solution = this.getStressProgram(solutionTabId, "solution");
+    if (!generator || !brute || !solution) return;
+
+    this.modalManager.setStressRunning(true);
+    this.modalManager.displayStressMessage("Starting stress test...", "running");
+
+    try {
+      const outcome = await this.stressTestService.run(
+        { generator, brute, solution, iterations },
+        (iteration) =>
+          this.modalManager.setStressStatus(
+            `Iteration ${iteration}/${iterations}`
+          )
+      );
+      this.modalManager.displayStressOutcome(outcome);
+    } catch (error) {
+      console.error("Stress test error:", error);
+      this.modalManager.displayStressMessage(
+        `Error: ${error instanceof Error ? error.message : "Stress test failed"
+        }`,
+        "error"
+      );
+    } finally {
+      this.modalManager.setStressRunning(false);
+    }
+  }
+
+  private getStressProgram(
+    tabId: number | null,
+    role: string
+  ): StressTestProgram | null {
+    const tab = tabId !== null ? this.tabManager.findTabById(tabId) : null;
+    if (!tab) {
+      this.modalManager.displayStressMessage(
+        `Please select a tab for the ${role}.`,
+        "error"
+      );
+      return null;
+    }
+
+    const language = this.getTabLanguage(tab);
+    if (!language || language === "csharp") {
+      this.modalManager.displayStressMessage(
+        `"${tab.name}" (${role}) is not a runnable file. Supported: ${formatRunnableExtensions()}`,
+        "error"
+      );
+      return null;
+    }
+
+    // The active tab's content is kept in sync by handleContentChange
+    const files = this.getSourceFiles(tab, language, tab.content, (message) =>
+      this.modalManager.displayStressMessage(message, "error")
+    );
+    return files ? { language, files } : null;
+  }
+
+  // ========================================================================
+  // Competitive Companion
+  // ========================================================================
+
+  // Opens a tab for the problem from the chosen template, with the sample
+  // tests as its test cases
+  private importProblem(problem: CompanionProblem): void {
+    const { templateKey, extension } =
+      this.settingsManager.getCompanionSettings();
+    const name = `${sanitizeFileName(problem.name)}.${extension}`;
+    const template = this.templateService.renderTemplate(templateKey, name);
+
+    this.createNewTab(name, null, template?.text || "");
+    const tab = this.tabManager.getActiveTab();
+    if (!tab) return;
+
+    if (template && template.cursor !== null) {
+      this.editorView.dispatch({
+        selection: { anchor: template.cursor },
+        scrollIntoView: true,
+      });
+    }
+
+    this.tabManager.setProblem(tab.id, {
+      name: problem.name,
+      group: problem.group,
+      url: problem.url,
+      timeLimit: problem.timeLimit,
+      memoryLimit: problem.memoryLimit,
+    });
+    problem.tests.forEach((test) =>
+      this.tabManager.addTestCase(tab.id, test.input, test.output)
+    );
+
+    this.renderTestCases();
+    console.log(
+      `Imported "${problem.name}" with ${problem.tests.length} test case(s)`
+    );
+  }
+
+  // ========================================================================
+  // Run History
+  // ========================================================================
+
+  // Unsaved tabs have no path and every new one is "Untitled", so their
+  // history is kept under the tab id instead
+  private getHistoryKey(tab: Tab): string {
+    return tab.path || `${RUN_HISTORY_CONFIG.unsavedKeyPrefix}${tab.id}`;
+  }
+
+  // The run history moves with the file when it is first saved or renamed
+  private updateTabPath(tab: Tab, path: string, name: string): void {
+    const historyKey = this.getHistoryKey(tab);
+    this.tabManager.updateTabPath(tab.id, path, name);
+    this.runHistoryManager.moveEntries(historyKey, this.getHistoryKey(tab));
+  }
+
+  private async recordRun(
+    tab: Tab,
+    code: string,
+    stdin: string,
+    result: PistonExecuteResponse,
+    elapsedMs: number
+  ): Promise<void> {
+    // A failed compile has no run stage worth keeping, so store its output
+    const failedCompile =
+      result.compile && result.compile.code !== 0 ? result.compile : null;
+    const stage = failedCompile || result.run;
+
+    this.runHistoryManager.addEntry(this.getHistoryKey(tab), {
+      timestamp: Date.now(),
+      language: result.language,
+      version: result.version,
+      stdin,
+      stdout: stage.stdout,
+      stderr: stage.stderr,
+      exitCode: stage.code,
+      signal: stage.signal ?? null,
+      codeHash: await hashCode(code),
+      elapsedMs,
+    });
+    await this.renderRunHistory();
+
+    const saveError = this.runHistoryManager.getSaveError();
+    if (saveError) {
+      this.modalManager.setOutputStatus(`Run history not saved: ${saveError}`);
+    }
+  }
+
+  private async renderRunHistory(): Promise<void> {
+    const activeTab = this.tabManager.getActiveTab();
+    if (!activeTab) {
+      this.runHistoryRenderer.render([], "", null);
+      return;
+    }
+
+    const entries = this.runHistoryManager.getEntries(
+      this.getHistoryKey(activeTab)
+    );
+    const currentHash = await hashCode(this.editorView.state.doc.toString());
+    this.runHistoryRenderer.render(
+      entries,
+      currentHash,
+      this.runHistoryManager.getSaveError()
+    );
+  }
+
+  private rerunHistoryEntry(entryId: number): void {
+    const activeTab = this.tabManager.getActiveTab();
+    const entry = activeTab
+      ? this.runHistoryManager.findEntry(this.getHistoryKey(activeTab), entryId)
+      : undefined;
+    if (!entry) return;
+
+    this.modalManager.setInputText(entry.stdin);
+    this.switchRunnerPanel("run");
+    this.runCode(true);
+  }
+
+  private compareHistoryEntry(entryId: number): void {
+    const activeTab = this.tabManager.getActiveTab();
+    if (!activeTab) return;
+
+    const key = this.getHistoryKey(activeTab);
+    const entry = this.runHistoryManager.findEntry(key, entryId);
+    const latest = this.runHistoryManager.getEntries(key)[0];
+    if (!entry || !latest) return;
+
+    this.runHistoryRenderer.renderDiff(
+      entry,
+      latest,
+      diffLines(entry.stdout, latest.stdout)
+    );
+  }
+
+  private clearRunHistory(): void {
+    const activeTab = this.tabManager.getActiveTab();
+    if (!activeTab) return;
+
+    this.runHistoryManager.clearEntries(this.getHistoryKey(activeTab));
+    this.renderRunHistory();
+  }
+
   // ========================================================================
   // UI Updates
   // ========================================================================
 
   private renderTabs(): void {
-    const tabs = this.tabManager.getAllTabs();
-    const activeTabId = this.tabManager.getActiveTabId();
-    this.tabRenderer.render(tabs, activeTabId);
+    this.paneManager.getVisiblePanes().forEach((pane) => {
+      const tabs = pane.tabIds
+        .map((id) => this.tabManager.findTabById(id))
+        .filter((tab): tab is Tab => tab !== undefined);
+      this.tabRenderers[pane.id].render(tabs, pane.activeTabId);
+    });
   }
 
   private updateTitle(tabName: string): void {
     document.title = `Notepad# - ${tabName}`;
   }
 
-  private updateEditorContent(content: string): void {
-    this.editorView.dispatch({
-      changes: {
-        from: 0,
-        to: this.editorView.state.doc.length,
-        insert: content,
-      },
-    });
+  private handleLanguageOverrideChange(languageId: string | null): void {
+    const activeTab = this.tabManager.getActiveTab();
+    if (!activeTab) return;
+
+    this.tabManager.setLanguageOverride(activeTab.id, languageId);
+    this.updateLanguage(activeTab);
+    this.editorView.focus();
   }
 
-  private updateLanguage(filePath: string | null): void {
-    const langExtension = getLanguageExtension(filePath);
-    this.editorView.dispatch({
-      effects: this.languageConf.reconfigure(langExtension),
-    });
+  private updateLanguage(tab: Tab): void {
+    this.reconfigureTab(tab, [
+      this.languageConf.reconfigure(getLanguageExtension(tab)),
+      this.completionConf.reconfigure(this.getCompletionExtension(tab)),
+    ]);
+    if (this.tabManager.getActiveTabId() === tab.id) {
+      this.statusBarRenderer.render(tab);
+    }
+  }
+
+  private getCompletionExtension(tab: Tab) {
+    return getAutocompleteExtension(
+      resolveLanguage(tab)?.id ?? null,
+      this.settingsManager.getSnippets(),
+      this.settingsManager.getAutocomplete()
+    );
+  }
+
+  // A shown tab's state lives in the views of the panes showing it; the
+  // others are kept on the tab until they are shown again
+  private reconfigureTab(tab: Tab, effects: StateEffect<unknown>[]): void {
+    const views = this.getViewsShowingTab(tab.id);
+    if (views.length > 0) {
+      views.forEach((view) => view.dispatch({ effects }));
+    } else if (tab.editorState) {
+      this.tabManager.setEditorState(
+        tab.id,
+        tab.editorState.update({ effects }).state
+      );
+    }
   }
 }
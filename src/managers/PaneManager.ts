@@ -0,0 +1,114 @@
+// src/managers/PaneManager.ts
+
+import type { EditorPane, SplitDirection } from "../types";
+
+// Tracks which tabs each editor pane holds and shows, and which pane has
+// focus. The second pane is only in use while the editor is split.
+export class PaneManager {
+  private panes: EditorPane[] = [this.createPane(0), this.createPane(1)];
+  private focusedPaneId: number = 0;
+  private direction: SplitDirection | null = null;
+
+  getPane(paneId: number): EditorPane {
+    return this.panes[paneId];
+  }
+
+  getVisiblePanes(): EditorPane[] {
+    return this.direction ? [...this.panes] : [this.panes[0]];
+  }
+
+  getFocusedPane(): EditorPane {
+    return this.panes[this.focusedPaneId];
+  }
+
+  getFocusedPaneId(): number {
+    return this.focusedPaneId;
+  }
+
+  getOtherPaneId(paneId: number): number {
+    return paneId === 0 ? 1 : 0;
+  }
+
+  getDirection(): SplitDirection | null {
+    return this.direction;
+  }
+
+  isSplit(): boolean {
+    return this.direction !== null;
+  }
+
+  focusPane(paneId: number): void {
+    if (this.getVisiblePanes().some((pane) => pane.id === paneId)) {
+      this.focusedPaneId = paneId;
+    }
+  }
+
+  // Adds the tab to the pane if it isn't there yet
+  showTab(paneId: number, tabId: number): void {
+    const pane = this.panes[paneId];
+    if (!pane.tabIds.includes(tabId)) pane.tabIds.push(tabId);
+    pane.activeTabId = tabId;
+  }
+
+  // The tab before the removed one is shown next, like closing a tab
+  removeTab(paneId: number, tabId: number): void {
+    const pane = this.panes[paneId];
+    const index = pane.tabIds.indexOf(tabId);
+    if (index === -1) return;
+
+    pane.tabIds.splice(index, 1);
+    if (pane.activeTabId === tabId) {
+      pane.activeTabId = pane.tabIds[Math.max(0, index - 1)] ?? null;
+    }
+  }
+
+  getNextTabId(paneId: number): number | null {
+    const pane = this.panes[paneId];
+    if (pane.tabIds.length <= 1) return null;
+
+    const index = pane.tabIds.indexOf(pane.activeTabId ?? -1);
+    return pane.tabIds[(index + 1) % pane.tabIds.length];
+  }
+
+  getPanesShowing(tabId: number): EditorPane[] {
+    return this.getVisiblePanes().filter((pane) => pane.activeTabId === tabId);
+  }
+
+  // Whether closing the tab in this pane leaves it open in the other one
+  isOpenInOtherPane(paneId: number, tabId: number): boolean {
+    return this.getVisiblePanes().some(
+      (pane) => pane.id !== paneId && pane.tabIds.includes(tabId)
+    );
+  }
+
+  // Opens the second pane with the given tab and focuses it; when already
+  // split only the direction changes
+  split(direction: SplitDirection, tabId: number): void {
+    if (!this.direction) {
+      this.panes[1] = { id: 1, tabIds: [tabId], activeTabId: tabId };
+      this.focusedPaneId = 1;
+    }
+    this.direction = direction;
+  }
+
+  // The second pane's tabs move into the first one, which keeps showing
+  // whatever the focused pane showed
+  unsplit(): void {
+    const [first, second] = this.panes;
+    second.tabIds.forEach((tabId) => {
+      if (!first.tabIds.includes(tabId)) first.tabIds.push(tabId);
+    });
+    const showSecond = this.focusedPaneId === 1 || first.activeTabId === null;
+    if (showSecond && second.activeTabId !== null) {
+      first.activeTabId = second.activeTabId;
+    }
+
+    this.panes[1] = this.createPane(1);
+    this.focusedPaneId = 0;
+    this.direction = null;
+  }
+
+  private createPane(id: number): EditorPane {
+    return { id, tabIds: [], activeTabId: null };
+  }
+}
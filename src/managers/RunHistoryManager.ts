@@ -0,0 +1,157 @@
+// src/managers/RunHistoryManager.ts
+
+import type { RunHistoryEntry } from "../types";
+import { RUN_HISTORY_CONFIG } from "../constants";
+
+// Past runs keyed by file path (or tab id for unsaved files), newest first
+export class RunHistoryManager {
+  private history: Record<string, RunHistoryEntry[]> = {};
+  private nextEntryId: number = 1;
+  private saveError: string | null = null;
+
+  constructor() {
+    this.loadHistory();
+  }
+
+  private loadHistory(): void {
+    try {
+      const saved = localStorage.getItem(RUN_HISTORY_CONFIG.storageKey);
+      if (saved) {
+        this.history = JSON.parse(saved);
+        const ids = Object.values(this.history).flatMap((entries) =>
+          entries.map((entry) => entry.id)
+        );
+        this.nextEntryId = Math.max(0, ...ids) + 1;
+      }
+    } catch (error) {
+      console.error("Error loading run history:", error);
+    }
+  }
+
+  // A full localStorage would also stop the settings from saving, so old
+  // files are dropped until the history fits
+  private saveHistory(): void {
+    this.prune();
+
+    for (;;) {
+      try {
+        localStorage.setItem(RUN_HISTORY_CONFIG.storageKey, this.serialize());
+        this.saveError = null;
+        return;
+      } catch (error) {
+        if (!this.evictOldest()) {
+          console.error("Error saving run history:", error);
+          this.saveError =
+            error instanceof Error ? error.message : "Unknown error";
+          return;
+        }
+      }
+    }
+  }
+
+  private serialize(): string {
+    return JSON.stringify(
+      Object.fromEntries(
+        this.getSavedFileKeys().map((fileKey) => [
+          fileKey,
+          this.history[fileKey],
+        ])
+      )
+    );
+  }
+
+  // Files whose history is stored, most recently run first
+  private getSavedFileKeys(): string[] {
+    const lastRun = (fileKey: string) =>
+      this.history[fileKey][0]?.timestamp ?? 0;
+    return Object.keys(this.history)
+      .filter(
+        (fileKey) => !fileKey.startsWith(RUN_HISTORY_CONFIG.unsavedKeyPrefix)
+      )
+      .sort((a, b) => lastRun(b) - lastRun(a));
+  }
+
+  private prune(): void {
+    this.getSavedFileKeys()
+      .slice(RUN_HISTORY_CONFIG.maxFiles)
+      .forEach((fileKey) => delete this.history[fileKey]);
+
+    while (this.serialize().length > RUN_HISTORY_CONFIG.maxStorageLength) {
+      if (!this.evictOldest()) break;
+    }
+  }
+
+  // Drops the file run least recently, or the oldest runs of the only file
+  // left. Returns false when there is nothing left to drop.
+  private evictOldest(): boolean {
+    const fileKeys = this.getSavedFileKeys();
+    if (fileKeys.length > 1) {
+      delete this.history[fileKeys[fileKeys.length - 1]];
+      return true;
+    }
+
+    const entries = fileKeys.length ? this.history[fileKeys[0]] : [];
+    if (entries.length > 1) {
+      entries.pop();
+      return true;
+    }
+    return false;
+  }
+
+  // Why the last save failed, or null when it worked
+  getSaveError(): string | null {
+    return this.saveError;
+  }
+
+  getEntries(fileKey: string): RunHistoryEntry[] {
+    return this.history[fileKey] || [];
+  }
+
+  findEntry(fileKey: string, entryId: number): RunHistoryEntry | undefined {
+    return this.getEntries(fileKey).find((entry) => entry.id === entryId);
+  }
+
+  addEntry(
+    fileKey: string,
+    entry: Omit<RunHistoryEntry, "id">
+  ): RunHistoryEntry {
+    const saved: RunHistoryEntry = {
+      ...entry,
+      id: this.nextEntryId++,
+      stdin: this.truncate(entry.stdin),
+      stdout: this.truncate(entry.stdout),
+      stderr: this.truncate(entry.stderr),
+    };
+
+    this.history[fileKey] = [saved, ...this.getEntries(fileKey)].slice(
+      0,
+      RUN_HISTORY_CONFIG.maxEntriesPerFile
+    );
+    this.saveHistory();
+    return saved;
+  }
+
+  // Keeps the history of a file that was saved for the first time or renamed
+  moveEntries(fromKey: string, toKey: string): void {
+    const entries = this.history[fromKey];
+    if (!entries || fromKey === toKey) return;
+
+    delete this.history[fromKey];
+    this.history[toKey] = [...entries, ...this.getEntries(toKey)]
+      .sort((a, b) => b.timestamp - a.timestamp)
+      .slice(0, RUN_HISTORY_CONFIG.maxEntriesPerFile);
+    this.saveHistory();
+  }
+
+  clearEntries(fileKey: string): void {
+    delete this.history[fileKey];
+    this.saveHistory();
+  }
+
+  private truncate(text: string): string {
+    const limit = RUN_HISTORY_CONFIG.maxStreamLength;
+    return text.length > limit
+      ? `${text.slice(0, limit)}\n... (truncated)`
+      : text;
+  }
+}
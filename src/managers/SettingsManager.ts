@@ -1,7 +1,30 @@
 // src/managers/SettingsManager.ts
 
-import { CODE_TEMPLATES } from "../constants";
-import type { TemplateType } from "../types";
+import {
+  CODE_TEMPLATES,
+  DEFAULT_BUILD_PROFILE,
+  DEFAULT_COMPANION_SETTINGS,
+  DEFAULT_BUILD_PROFILES,
+  DEFAULT_COMPARISON,
+  DEFAULT_KEYBINDINGS,
+  DEFAULT_TIMEOUTS,
+  LANGUAGE_TIMEOUT_OVERRIDES,
+  PISTON_API,
+} from "../constants";
+import { LANGUAGES } from "../languages";
+import { escapeTemplate } from "../utils/templateSyntax";
+import type {
+  BuildProfile,
+  CodeSnippet,
+  CompanionSettings,
+  ComparisonSettings,
+  DiffView,
+  ExecutionBackendId,
+  ExecutionTimeouts,
+  KeymapMode,
+  PistonSettings,
+  TemplateType,
+} from "../types";
 
 interface CustomTemplate {
   name: string;
@@ -10,17 +33,69 @@ interface CustomTemplate {
 
 interface Settings {
   customTemplates: Record<string, CustomTemplate>;
+  // Set once custom templates use `\$` for a literal `$`
+  templatesEscaped?: boolean;
   theme: string;
+  piston?: PistonSettings;
+  runtimeVersions?: Record<string, string>;
+  executionBackends?: Record<string, ExecutionBackendId>;
+  timeouts?: Record<string, ExecutionTimeouts>;
+  buildProfiles?: Record<string, BuildProfile[]>;
+  activeBuildProfiles?: Record<string, string>;
+  companion?: CompanionSettings;
+  comparison?: ComparisonSettings;
+  diffView?: DiffView;
+  wrapSnippets?: boolean;
+  autocomplete?: boolean;
+  snippets?: CodeSnippet[];
+  author?: string;
+  keybindings?: Record<string, string>;
+  keymapMode?: KeymapMode;
 }
 
 export class SettingsManager {
   private customTemplates: Map<string, CustomTemplate>;
   private currentTheme: string;
+  private pistonSettings: PistonSettings;
+  private runtimeVersions: Record<string, string>;
+  private executionBackends: Record<string, ExecutionBackendId>;
+  private timeouts: Record<string, ExecutionTimeouts>;
+  private buildProfiles: Record<string, BuildProfile[]>;
+  private activeBuildProfiles: Record<string, string>;
+  private companionSettings: CompanionSettings;
+  private comparison: ComparisonSettings;
+  private diffView: DiffView;
+  private wrapSnippets: boolean;
+  private autocomplete: boolean;
+  private snippets: CodeSnippet[];
+  private author: string;
+  // Only the keybindings that differ from DEFAULT_KEYBINDINGS
+  private keybindings: Record<string, string>;
+  private keymapMode: KeymapMode;
   private storageKey = "notepad-sharp-settings";
 
   constructor() {
     this.customTemplates = new Map();
     this.currentTheme = "oneDark"; // Default theme
+    this.pistonSettings = {
+      baseUrl: PISTON_API.baseUrl,
+      authHeaderName: PISTON_API.authHeaderName,
+      authHeaderValue: "",
+    };
+    this.runtimeVersions = {};
+    this.executionBackends = {};
+    this.timeouts = {};
+    this.buildProfiles = {};
+    this.activeBuildProfiles = {};
+    this.companionSettings = { ...DEFAULT_COMPANION_SETTINGS };
+    this.comparison = { ...DEFAULT_COMPARISON };
+    this.diffView = "side-by-side";
+    this.wrapSnippets = true;
+    this.autocomplete = true;
+    this.snippets = [];
+    this.author = "";
+    this.keybindings = {};
+    this.keymapMode = "default";
     this.loadSettings();
     console.log("SettingsManager initialized with theme:", this.currentTheme);
   }
@@ -37,6 +112,58 @@ export class SettingsManager {
           this.currentTheme = data.theme;
           console.log("Loaded saved theme:", this.currentTheme);
         }
+        if (data.piston) {
+          this.pistonSettings = { ...this.pistonSettings, ...data.piston };
+        }
+        if (data.runtimeVersions) {
+          this.runtimeVersions = data.runtimeVersions;
+        }
+        if (data.executionBackends) {
+          this.executionBackends = data.executionBackends;
+        }
+        if (data.timeouts) {
+          this.timeouts = data.timeouts;
+        }
+        if (data.buildProfiles) {
+          this.buildProfiles = data.buildProfiles;
+        }
+        if (data.activeBuildProfiles) {
+          this.activeBuildProfiles = data.activeBuildProfiles;
+        }
+        if (data.companion) {
+          this.companionSettings = {
+            ...this.companionSettings,
+            ...data.companion,
+          };
+        }
+        if (data.comparison) {
+          this.comparison = { ...this.comparison, ...data.comparison };
+        }
+        if (data.diffView) {
+          this.diffView = data.diffView;
+        }
+        if (data.wrapSnippets !== undefined) {
+          this.wrapSnippets = data.wrapSnippets;
+        }
+        if (data.autocomplete !== undefined) {
+          this.autocomplete = data.autocomplete;
+        }
+        if (data.snippets) {
+          this.snippets = data.snippets;
+        }
+        if (data.author !== undefined) {
+          this.author = data.author;
+        }
+        if (data.keybindings) {
+          this.keybindings = data.keybindings;
+        }
+        if (data.keymapMode) {
+          this.keymapMode = data.keymapMode;
+        }
+        // Last, since it saves every setting loaded so far
+        if (!data.templatesEscaped) {
+          this.escapeCustomTemplates();
+        }
       } else {
         console.log(
           "No saved settings found, using default theme:",
@@ -48,11 +175,38 @@ export class SettingsManager {
     }
   }
 
+  // Templates saved before `$` and `#{` could be escaped were inserted as
+  // typed, so they keep that text
+  private escapeCustomTemplates(): void {
+    if (this.customTemplates.size === 0) return;
+
+    this.customTemplates.forEach((template) => {
+      template.code = escapeTemplate(template.code);
+    });
+    this.saveSettings();
+  }
+
   private saveSettings(): void {
     try {
       const data: Settings = {
         customTemplates: Object.fromEntries(this.customTemplates),
+        templatesEscaped: true,
         theme: this.currentTheme,
+        piston: this.pistonSettings,
+        runtimeVersions: this.runtimeVersions,
+        executionBackends: this.executionBackends,
+        timeouts: this.timeouts,
+        buildProfiles: this.buildProfiles,
+        activeBuildProfiles: this.activeBuildProfiles,
+        companion: this.companionSettings,
+        comparison: this.comparison,
+        diffView: this.diffView,
+        wrapSnippets: this.wrapSnippets,
+        autocomplete: this.autocomplete,
+        snippets: this.snippets,
+        author: this.author,
+        keybindings: this.keybindings,
+        keymapMode: this.keymapMode,
       };
       localStorage.setItem(this.storageKey, JSON.stringify(data));
       console.log("Settings saved. Theme:", this.currentTheme);
@@ -73,7 +227,184 @@ export class SettingsManager {
     this.saveSettings();
   }
 
+  // Piston Methods
+  getPistonSettings(): PistonSettings {
+    return { ...this.pistonSettings };
+  }
+
+  setPistonSettings(settings: PistonSettings): void {
+    this.pistonSettings = {
+      baseUrl: settings.baseUrl.trim() || PISTON_API.baseUrl,
+      authHeaderName:
+        settings.authHeaderName.trim() || PISTON_API.authHeaderName,
+      authHeaderValue: settings.authHeaderValue.trim(),
+    };
+    this.saveSettings();
+  }
+
+  getRuntimeVersion(language: string): string {
+    return this.runtimeVersions[language] || PISTON_API.latestVersion;
+  }
+
+  setRuntimeVersion(language: string, version: string): void {
+    if (version === PISTON_API.latestVersion) {
+      delete this.runtimeVersions[language];
+    } else {
+      this.runtimeVersions[language] = version;
+    }
+    this.saveSettings();
+  }
+
+  // Execution Backend Methods
+  getExecutionBackend(language: string): ExecutionBackendId {
+    return this.executionBackends[language] || "piston";
+  }
+
+  setExecutionBackends(backends: Record<string, ExecutionBackendId>): void {
+    this.executionBackends = { ...this.executionBackends, ...backends };
+    this.saveSettings();
+  }
+
+  // Timeout Methods
+  getTimeouts(language: string): ExecutionTimeouts {
+    return (
+      this.timeouts[language] ||
+      LANGUAGE_TIMEOUT_OVERRIDES[language] || { ...DEFAULT_TIMEOUTS }
+    );
+  }
+
+  setTimeouts(timeouts: Record<string, ExecutionTimeouts>): void {
+    this.timeouts = { ...this.timeouts, ...timeouts };
+    this.saveSettings();
+  }
+
+  // Build Profile Methods
+  getBuildProfiles(language: string): BuildProfile[] {
+    return (
+      this.buildProfiles[language] ||
+      DEFAULT_BUILD_PROFILES[language] || [DEFAULT_BUILD_PROFILE]
+    );
+  }
+
+  // An empty list restores the default profiles
+  setBuildProfiles(language: string, profiles: BuildProfile[]): void {
+    if (profiles.length === 0) {
+      delete this.buildProfiles[language];
+    } else {
+      this.buildProfiles[language] = profiles;
+    }
+    this.saveSettings();
+  }
+
+  getActiveBuildProfile(language: string): BuildProfile {
+    const profiles = this.getBuildProfiles(language);
+    const activeId = this.activeBuildProfiles[language];
+    return profiles.find((p) => p.id === activeId) || profiles[0];
+  }
+
+  setActiveBuildProfile(language: string, profileId: string): void {
+    this.activeBuildProfiles[language] = profileId;
+    this.saveSettings();
+  }
+
+  // Output Comparison Methods
+  getComparisonSettings(): ComparisonSettings {
+    return { ...this.comparison };
+  }
+
+  setComparisonSettings(settings: Partial<ComparisonSettings>): void {
+    this.comparison = { ...this.comparison, ...settings };
+    this.saveSettings();
+  }
+
+  getDiffView(): DiffView {
+    return this.diffView;
+  }
+
+  setDiffView(view: DiffView): void {
+    this.diffView = view;
+    this.saveSettings();
+  }
+
+  // Run Selection Methods
+  getWrapSnippets(): boolean {
+    return this.wrapSnippets;
+  }
+
+  setWrapSnippets(wrap: boolean): void {
+    this.wrapSnippets = wrap;
+    this.saveSettings();
+  }
+
+  // Autocompletion Methods
+  getAutocomplete(): boolean {
+    return this.autocomplete;
+  }
+
+  setAutocomplete(enabled: boolean): void {
+    this.autocomplete = enabled;
+    this.saveSettings();
+  }
+
+  // User snippets only; the built-in ones live in src/languages/completions
+  getSnippets(): CodeSnippet[] {
+    return this.snippets.map((snippet) => ({ ...snippet }));
+  }
+
+  setSnippets(snippets: CodeSnippet[]): void {
+    this.snippets = snippets.map((snippet) => ({ ...snippet }));
+    this.saveSettings();
+  }
+
+  // Competitive Companion Methods
+  getCompanionSettings(): CompanionSettings {
+    return { ...this.companionSettings };
+  }
+
+  setCompanionSettings(settings: CompanionSettings): void {
+    this.companionSettings = { ...settings };
+    this.saveSettings();
+  }
+
+  // Keybinding Methods
+  // An empty override unbinds a command that has a default keybinding
+  getKeybinding(commandId: string): string | undefined {
+    const keybinding =
+      this.keybindings[commandId] ?? DEFAULT_KEYBINDINGS[commandId];
+    return keybinding || undefined;
+  }
+
+  // Takes the keybinding of every command, "" for unbound ones
+  setKeybindings(keybindings: Record<string, string>): void {
+    this.keybindings = {};
+    Object.entries(keybindings).forEach(([commandId, keybinding]) => {
+      if (keybinding !== (DEFAULT_KEYBINDINGS[commandId] ?? "")) {
+        this.keybindings[commandId] = keybinding;
+      }
+    });
+    this.saveSettings();
+  }
+
+  getKeymapMode(): KeymapMode {
+    return this.keymapMode;
+  }
+
+  setKeymapMode(mode: KeymapMode): void {
+    this.keymapMode = mode;
+    this.saveSettings();
+  }
+
   // Template Methods
+  // Fills ${AUTHOR} in templates
+  getAuthor(): string {
+    return this.author;
+  }
+
+  setAuthor(author: string): void {
+    this.author = author.trim();
+    this.saveSettings();
+  }
+
   getTemplate(key: string): string {
     // Check custom templates first
     const custom = this.customTemplates.get(key);
@@ -99,14 +430,11 @@ export class SettingsManager {
     }> = [];
 
     // Add default templates
-    const defaultTemplates: Array<{ key: TemplateType; name: string }> = [
-      { key: "csharp", name: "C# Template" },
-      { key: "cpp", name: "C++ Template" },
-      { key: "python", name: "Python Template" },
-      { key: "java", name: "Java Template" },
-    ];
-
-    defaultTemplates.forEach(({ key, name }) => {
+    const defaultTemplates = LANGUAGES.filter((language) => language.template);
+
+    defaultTemplates.forEach((language) => {
+      const key = language.template as TemplateType;
+      const name = `${language.name} Template`;
       const customTemplate = this.customTemplates.get(key);
       templates.push({
         key,
@@ -1,6 +1,7 @@
 // src/managers/TabManager.ts
 
-import type { Tab } from "../types";
+import type { EditorState } from "@codemirror/state";
+import type { ProblemInfo, Tab, TestCase } from "../types";
 import { EDITOR_CONFIG } from "../constants";
 import { confirm as tauriConfirm } from "@tauri-apps/plugin-dialog";
 
@@ -8,6 +9,7 @@ export class TabManager {
   private tabs: Tab[] = [];
   private activeTabId: number | null = null;
   private nextTabId: number = 1;
+  private nextTestCaseId: number = 1;
 
   createTab(
     name: string = EDITOR_CONFIG.defaultFileName,
@@ -21,6 +23,11 @@ export class TabManager {
       content,
       savedContent: content,
       modified: false,
+      testCases: [],
+      attachedTabIds: [],
+      checkerTabId: null,
+      languageOverride: null,
+      detectedLanguage: null,
     };
 
     this.tabs.push(tab);
@@ -114,6 +121,11 @@ export class TabManager {
     }
   }
 
+  setEditorState(tabId: number, editorState: EditorState): void {
+    const tab = this.findTabById(tabId);
+    if (tab) tab.editorState = editorState;
+  }
+
   markTabSaved(tabId: number, content: string): void {
     const tab = this.findTabById(tabId);
     if (tab) {
@@ -145,6 +157,87 @@ export class TabManager {
     }
   }
 
+  addTestCase(
+    tabId: number,
+    stdin: string = "",
+    expectedOutput: string = ""
+  ): TestCase | null {
+    const tab = this.findTabById(tabId);
+    if (!tab) return null;
+
+    const testCase: TestCase = {
+      id: this.nextTestCaseId++,
+      stdin,
+      expectedOutput,
+    };
+    tab.testCases.push(testCase);
+    return testCase;
+  }
+
+  updateTestCase(
+    tabId: number,
+    testCaseId: number,
+    changes: Partial<Omit<TestCase, "id">>
+  ): void {
+    const testCase = this.findTabById(tabId)?.testCases.find(
+      (t) => t.id === testCaseId
+    );
+    if (testCase) {
+      Object.assign(testCase, changes);
+    }
+  }
+
+  removeTestCase(tabId: number, testCaseId: number): void {
+    const tab = this.findTabById(tabId);
+    if (tab) {
+      tab.testCases = tab.testCases.filter((t) => t.id !== testCaseId);
+    }
+  }
+
+  setAttachedTabs(tabId: number, attachedTabIds: number[]): void {
+    const tab = this.findTabById(tabId);
+    if (tab) {
+      tab.attachedTabIds = attachedTabIds.filter((id) => id !== tabId);
+    }
+  }
+
+  setChecker(tabId: number, checkerTabId: number | null): void {
+    const tab = this.findTabById(tabId);
+    if (tab) tab.checkerTabId = checkerTabId === tabId ? null : checkerTabId;
+  }
+
+  // The checker tab, if one is set and still open
+  getCheckerTab(tabId: number): Tab | null {
+    const tab = this.findTabById(tabId);
+    if (!tab || tab.checkerTabId === null) return null;
+    return this.findTabById(tab.checkerTabId) ?? null;
+  }
+
+  setLanguageOverride(tabId: number, languageId: string | null): void {
+    const tab = this.findTabById(tabId);
+    if (tab) tab.languageOverride = languageId;
+  }
+
+  setDetectedLanguage(tabId: number, languageId: string | null): void {
+    const tab = this.findTabById(tabId);
+    if (tab) tab.detectedLanguage = languageId;
+  }
+
+  setProblem(tabId: number, problem: ProblemInfo): void {
+    const tab = this.findTabById(tabId);
+    if (tab) tab.problem = problem;
+  }
+
+  // Attached tabs that are still open
+  getAttachedTabs(tabId: number): Tab[] {
+    const tab = this.findTabById(tabId);
+    if (!tab) return [];
+
+    return tab.attachedTabIds
+      .map((id) => this.findTabById(id))
+      .filter((t): t is Tab => t !== undefined);
+  }
+
   private async confirmClose(tabName: string): Promise<boolean> {
     return await tauriConfirm(
       `Your changes will be lost if you don't save them.`,
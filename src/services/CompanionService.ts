@@ -0,0 +1,17 @@
+// src/services/CompanionService.ts
+
+import { listen, UnlistenFn } from "@tauri-apps/api/event";
+import type { CompanionProblem } from "../types";
+import { COMPANION_EVENT } from "../constants";
+
+// Problems sent by the Competitive Companion browser extension. The Rust
+// side listens on port 27121 and forwards each one as an event.
+export class CompanionService {
+  async listen(
+    onProblem: (problem: CompanionProblem) => void
+  ): Promise<UnlistenFn> {
+    return await listen<CompanionProblem>(COMPANION_EVENT, (event) =>
+      onProblem(event.payload)
+    );
+  }
+}
@@ -0,0 +1,61 @@
+// src/services/ExecutionService.ts
+
+import type {
+  CodeExecutor,
+  ExecuteOptions,
+  PistonExecuteResponse,
+  SourceFile,
+} from "../types";
+import { SettingsManager } from "../managers/SettingsManager";
+import { PistonService } from "./PistonService";
+import { LocalExecutionService } from "./LocalExecutionService";
+import { getBuildArgs } from "../utils/buildArgs";
+
+// Sends each run to the backend chosen for its language in settings
+export class ExecutionService implements CodeExecutor {
+  private settingsManager: SettingsManager;
+  private pistonService: PistonService;
+  private localExecutionService: LocalExecutionService;
+
+  constructor(
+    settingsManager: SettingsManager,
+    pistonService: PistonService,
+    localExecutionService: LocalExecutionService
+  ) {
+    this.settingsManager = settingsManager;
+    this.pistonService = pistonService;
+    this.localExecutionService = localExecutionService;
+  }
+
+  async executeCode(
+    language: string,
+    files: SourceFile[],
+    stdin: string = "",
+    options: ExecuteOptions = {}
+  ): Promise<PistonExecuteResponse> {
+    const timeouts =
+      options.timeouts || this.settingsManager.getTimeouts(language);
+    const buildArgs =
+      options.buildArgs ||
+      getBuildArgs(
+        language,
+        this.settingsManager.getActiveBuildProfile(language)
+      );
+    return await this.getExecutor(language).executeCode(
+      language,
+      files,
+      stdin,
+      { ...options, timeouts, buildArgs }
+    );
+  }
+
+  isLocal(language: string): boolean {
+    return this.settingsManager.getExecutionBackend(language) === "local";
+  }
+
+  private getExecutor(language: string): CodeExecutor {
+    return this.isLocal(language)
+      ? this.localExecutionService
+      : this.pistonService;
+  }
+}
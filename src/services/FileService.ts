@@ -2,7 +2,7 @@
 
 import { open, save } from "@tauri-apps/plugin-dialog";
 import { readTextFile, writeTextFile, rename } from "@tauri-apps/plugin-fs";
-import { FILE_FILTERS } from "../constants";
+import { getFileFilters } from "../languages";
 import type { FileOperationResult } from "../types";
 import { extractFileName } from "../utils/helpers";
 
@@ -11,7 +11,7 @@ export class FileService {
     try {
       const selected = await open({
         multiple: false,
-        filters: FILE_FILTERS,
+        filters: getFileFilters(),
       });
 
       if (selected && typeof selected === "string") {
@@ -38,7 +38,7 @@ export class FileService {
 
   async promptSaveLocation(): Promise<string | null> {
     try {
-      const selected = await save({ filters: FILE_FILTERS });
+      const selected = await save({ filters: getFileFilters() });
       return selected && typeof selected === "string" ? selected : null;
     } catch (error) {
       console.error("Error prompting save location:", error);
@@ -0,0 +1,184 @@
+// src/services/JudgeService.ts
+
+import type {
+  CheckerProgram,
+  CodeExecutor,
+  ExecutionTimeouts,
+  PistonExecuteResponse,
+  SourceFile,
+  TestCase,
+  TestCaseResult,
+  Verdict,
+} from "../types";
+import { SettingsManager } from "../managers/SettingsManager";
+import { outputsMatch } from "../utils/outputComparator";
+import { CHECKER_EXIT_VERDICTS, CHECKER_FILES } from "../constants";
+
+export class JudgeService {
+  private executor: CodeExecutor;
+  private settingsManager: SettingsManager;
+
+  constructor(executor: CodeExecutor, settingsManager: SettingsManager) {
+    this.executor = executor;
+    this.settingsManager = settingsManager;
+  }
+
+  // Runs every test case in order. A compile error fails the whole set, so
+  // the remaining cases are not executed again. With a checker, its verdict
+  // replaces the plain output comparison. Without `timeouts`, the program
+  // gets the language's configured ones.
+  async runTestCases(
+    language: string,
+    files: SourceFile[],
+    testCases: TestCase[],
+    onResult?: (result: TestCaseResult) => void,
+    signal?: AbortSignal,
+    checker?: CheckerProgram,
+    timeouts?: ExecutionTimeouts
+  ): Promise<TestCaseResult[]> {
+    const results: TestCaseResult[] = [];
+    let compileError: PistonExecuteResponse | null = null;
+    let checkerCompileError: PistonExecuteResponse | null = null;
+
+    for (const testCase of testCases) {
+      let result: TestCaseResult;
+
+      if (compileError) {
+        result = this.createResult(testCase, "CE", compileError, 0);
+      } else {
+        const startedAt = performance.now();
+        const response = await this.executor.executeCode(
+          language,
+          files,
+          testCase.stdin,
+          { signal, timeouts }
+        );
+        const elapsedMs = performance.now() - startedAt;
+        const verdict = this.getVerdict(response, testCase.expectedOutput);
+        if (verdict === "CE") compileError = response;
+        result = this.createResult(testCase, verdict, response, elapsedMs);
+      }
+
+      if (checker && (result.verdict === "AC" || result.verdict === "WA")) {
+        const response: PistonExecuteResponse =
+          checkerCompileError ??
+          (await this.runChecker(checker, testCase, result.stdout, signal));
+        if (response.compile && response.compile.code !== 0) {
+          checkerCompileError = response;
+        }
+        result = { ...result, ...this.getCheckerVerdict(response) };
+      }
+
+      results.push(result);
+      onResult?.(result);
+    }
+
+    return results;
+  }
+
+  getVerdict(result: PistonExecuteResponse, expectedOutput: string): Verdict {
+    if (result.compile && result.compile.code !== 0) return "CE";
+    if (result.run.signal === "SIGKILL") return "TLE";
+    if (result.run.code !== 0 && result.run.code !== null) return "RE";
+    if (result.run.signal) return "RE";
+
+    return this.judgeOutput(result.run.stdout, expectedOutput);
+  }
+
+  // Re-applies the current comparison settings to a finished result without
+  // running the program again. Checker verdicts are kept as they are.
+  rejudge(result: TestCaseResult, expectedOutput: string): TestCaseResult {
+    if (result.verdict !== "AC" && result.verdict !== "WA") return result;
+    if (result.checkerMessage !== undefined) return result;
+    return {
+      ...result,
+      verdict: this.judgeOutput(result.stdout, expectedOutput),
+    };
+  }
+
+  countPassed(results: TestCaseResult[]): number {
+    return results.filter((r) => r.verdict === "AC").length;
+  }
+
+  // Runs the checker with the test input, the program output and the
+  // expected answer as files
+  private async runChecker(
+    checker: CheckerProgram,
+    testCase: TestCase,
+    stdout: string,
+    signal?: AbortSignal
+  ): Promise<PistonExecuteResponse> {
+    return await this.executor.executeCode(
+      checker.language,
+      [
+        ...checker.files,
+        { name: CHECKER_FILES.input, content: testCase.stdin },
+        { name: CHECKER_FILES.output, content: stdout },
+        { name: CHECKER_FILES.answer, content: testCase.expectedOutput },
+      ],
+      "",
+      {
+        signal,
+        buildArgs: {
+          compileArgs: checker.buildArgs.compileArgs,
+          runArgs: [
+            ...checker.buildArgs.runArgs,
+            CHECKER_FILES.input,
+            CHECKER_FILES.output,
+            CHECKER_FILES.answer,
+          ],
+        },
+      }
+    );
+  }
+
+  // The verdict comes from the checker's exit code, the message from its
+  // stderr (where testlib writes it) or stdout
+  private getCheckerVerdict(
+    response: PistonExecuteResponse
+  ): Pick<TestCaseResult, "verdict" | "checkerMessage"> {
+    if (response.compile && response.compile.code !== 0) {
+      const output = response.compile.stderr || response.compile.output;
+      return {
+        verdict: "FAIL",
+        checkerMessage: `Checker compilation failed\n${output}`.trim(),
+      };
+    }
+
+    const { code, signal, stdout, stderr } = response.run;
+    const message = stderr.trim() || stdout.trim();
+    const verdict = code !== null ? CHECKER_EXIT_VERDICTS[code] : undefined;
+    if (verdict && !signal) return { verdict, checkerMessage: message };
+
+    let reason = `exited with code ${code}`;
+    if (signal === "SIGKILL") reason = "timed out";
+    else if (signal) reason = `was killed by ${signal}`;
+    return {
+      verdict: "FAIL",
+      checkerMessage: [`Checker ${reason}`, message].filter(Boolean).join("\n"),
+    };
+  }
+
+  private judgeOutput(stdout: string, expectedOutput: string): Verdict {
+    const comparison = this.settingsManager.getComparisonSettings();
+    return outputsMatch(stdout, expectedOutput, comparison) ? "AC" : "WA";
+  }
+
+  private createResult(
+    testCase: TestCase,
+    verdict: Verdict,
+    response: PistonExecuteResponse,
+    elapsedMs: number
+  ): TestCaseResult {
+    return {
+      testCaseId: testCase.id,
+      verdict,
+      stdout: response.run.stdout,
+      stderr:
+        verdict === "CE"
+          ? response.compile?.stderr || response.compile?.output || ""
+          : response.run.stderr,
+      elapsedMs,
+    };
+  }
+}
@@ -0,0 +1,52 @@
+// src/services/LocalExecutionService.ts
+
+import { invoke } from "@tauri-apps/api/core";
+import type {
+  CodeExecutor,
+  ExecuteOptions,
+  PistonExecuteResponse,
+  SourceFile,
+} from "../types";
+import { DEFAULT_TIMEOUTS } from "../constants";
+
+// Runs code with the compilers/interpreters installed on this machine via the
+// `run_local` Tauri command. The response uses the Piston shape.
+export class LocalExecutionService implements CodeExecutor {
+  private nextRunId: number = 1;
+
+  async executeCode(
+    language: string,
+    files: SourceFile[],
+    stdin: string = "",
+    options: ExecuteOptions = {}
+  ): Promise<PistonExecuteResponse> {
+    const { signal, timeouts = DEFAULT_TIMEOUTS, buildArgs } = options;
+    signal?.throwIfAborted();
+
+    // The id lets `cancel_local_run` find and kill this run's process
+    const runId = this.nextRunId++;
+    const cancel = () => {
+      invoke("cancel_local_run", { runId }).catch((error) =>
+        console.error("Failed to cancel local run:", error)
+      );
+    };
+    signal?.addEventListener("abort", cancel, { once: true });
+
+    try {
+      return await invoke<PistonExecuteResponse>("run_local", {
+        request: {
+          language,
+          files,
+          stdin,
+          compile_args: buildArgs?.compileArgs ?? [],
+          run_args: buildArgs?.runArgs ?? [],
+          compile_timeout: timeouts.compile,
+          run_timeout: timeouts.run,
+          run_id: runId,
+        },
+      });
+    } finally {
+      signal?.removeEventListener("abort", cancel);
+    }
+  }
+}
@@ -1,61 +1,192 @@
 // services/PistonService.ts
 
-import { PistonExecuteRequest, PistonExecuteResponse } from "../types";
-import { PISTON_API } from "../constants";
+import { invoke } from "@tauri-apps/api/core";
+import {
+  CodeExecutor,
+  ExecuteOptions,
+  PistonExecuteRequest,
+  PistonExecuteResponse,
+  PistonRuntime,
+  PistonSettings,
+  SourceFile,
+} from "../types";
+import { SettingsManager } from "../managers/SettingsManager";
+import { DEFAULT_TIMEOUTS } from "../constants";
+import { findLanguageById } from "../languages";
+
+// What the `piston_request` Tauri command returns
+interface PistonHttpResponse {
+  status: number;
+  body: string;
+}
+
+export class PistonService implements CodeExecutor {
+  private settingsManager: SettingsManager;
+  private runtimesCache: { key: string; runtimes: PistonRuntime[] } | null =
+    null;
+
+  constructor(settingsManager: SettingsManager) {
+    this.settingsManager = settingsManager;
+  }
 
-export class PistonService {
   async executeCode(
     language: string,
-    code: string,
-    stdin: string = ""
+    files: SourceFile[],
+    stdin: string = "",
+    options: ExecuteOptions = {}
   ): Promise<PistonExecuteResponse> {
+    const { signal, timeouts = DEFAULT_TIMEOUTS, buildArgs } = options;
     const formattedStdin = stdin
       ? stdin.endsWith("\n")
         ? stdin
         : stdin + "\n"
       : "";
 
-    const isCSharp = language === "csharp";
+    const settings = this.settingsManager.getPistonSettings();
 
     const payload: PistonExecuteRequest = {
-      language,
-      version: "*",
-      files: [{ name: "Program.cs", content: code }],
+      language: this.getPistonLanguage(language),
+      version: this.settingsManager.getRuntimeVersion(language),
+      files,
       stdin: formattedStdin || undefined,
-      compile_timeout: 20000,
-      run_timeout: isCSharp ? 20000 : 5000,
+      // Piston has no compiler flags, so only the program arguments are sent
+      args: buildArgs?.runArgs.length ? buildArgs.runArgs : undefined,
+      compile_timeout: timeouts.compile,
+      run_timeout: timeouts.run,
     };
 
-    const response = await fetch(`${PISTON_API.baseUrl}/execute`, {
-      method: "POST",
-      headers: { "Content-Type": "application/json" },
-      body: JSON.stringify(payload),
-    });
+    const response = await this.request(
+      settings,
+      "execute",
+      JSON.stringify(payload),
+      signal
+    );
 
-    if (!response.ok) {
-      const err = await response.text();
-      console.error("Piston error:", err);
+    if (!this.isOk(response)) {
+      console.error("Piston error:", response.body);
       throw new Error(`HTTP error! status: ${response.status}`);
     }
 
-    return await response.json();
+    return JSON.parse(response.body);
+  }
+
+  // Lists the runtimes installed on the server. Pass `settings` to query an
+  // endpoint that has not been saved yet (e.g. "Test Connection").
+  async getRuntimes(
+    settings: PistonSettings = this.settingsManager.getPistonSettings(),
+    forceRefresh: boolean = false
+  ): Promise<PistonRuntime[]> {
+    const cacheKey = `${this.getBaseUrl(settings)}|${settings.authHeaderName}|${settings.authHeaderValue}`;
+    if (!forceRefresh && this.runtimesCache?.key === cacheKey) {
+      return this.runtimesCache.runtimes;
+    }
+
+    const response = await this.request(settings, "runtimes");
+
+    if (!this.isOk(response)) {
+      console.error("Piston runtimes error:", response.body);
+      throw new Error(`HTTP error! status: ${response.status}`);
+    }
+
+    const runtimes: PistonRuntime[] = JSON.parse(response.body);
+    this.runtimesCache = { key: cacheKey, runtimes };
+    return runtimes;
+  }
+
+  async getLanguageVersions(language: string): Promise<string[]> {
+    const pistonLanguage = this.getPistonLanguage(language);
+    const runtimes = await this.getRuntimes();
+    return runtimes
+      .filter(
+        (runtime) =>
+          runtime.language === pistonLanguage ||
+          (runtime.aliases || []).includes(pistonLanguage)
+      )
+      .map((runtime) => runtime.version);
+  }
+
+  private getPistonLanguage(language: string): string {
+    return findLanguageById(language)?.pistonId || language;
+  }
+
+  private getBaseUrl(settings: PistonSettings): string {
+    return settings.baseUrl.trim().replace(/\/+$/, "");
+  }
+
+  // Requests go through the `piston_request` command, which reaches any
+  // host. The command can't be aborted, so a cancelled run just stops
+  // waiting for it.
+  private async request(
+    settings: PistonSettings,
+    endpoint: "execute" | "runtimes",
+    body?: string,
+    signal?: AbortSignal
+  ): Promise<PistonHttpResponse> {
+    signal?.throwIfAborted();
+
+    const response = invoke<PistonHttpResponse>("piston_request", {
+      request: {
+        base_url: this.getBaseUrl(settings),
+        endpoint,
+        headers: this.buildHeaders(
+          settings,
+          body ? { "Content-Type": "application/json" } : {}
+        ),
+        body,
+      },
+    }).catch((error) => {
+      throw error instanceof Error ? error : new Error(String(error));
+    });
+    if (!signal) return await response;
+
+    return await new Promise((resolve, reject) => {
+      const abort = () => reject(signal.reason);
+      signal.addEventListener("abort", abort, { once: true });
+      response
+        .then(resolve, reject)
+        .finally(() => signal.removeEventListener("abort", abort));
+    });
+  }
+
+  private isOk(response: PistonHttpResponse): boolean {
+    return response.status >= 200 && response.status < 300;
+  }
+
+  private buildHeaders(
+    settings: PistonSettings,
+    headers: Record<string, string> = {}
+  ): Record<string, string> {
+    if (settings.authHeaderName && settings.authHeaderValue) {
+      headers[settings.authHeaderName] = settings.authHeaderValue;
+    }
+    return headers;
   }
 
   formatOutput(result: PistonExecuteResponse): {
     text: string;
     type: "success" | "error";
+    label: string;
   } {
     let output = "";
     let type: "success" | "error" = "success";
+    let label = "Finished";
 
     if (result.run.signal === "SIGKILL") {
       type = "error";
+      label = "Time Limit Exceeded";
       output = "Program terminated (timeout or waiting for input)\n";
       if (result.run.stdout) output += `\nOutput:\n${result.run.stdout}`;
     } else if (result.compile && result.compile.code !== 0) {
       type = "error";
+      label = "Compilation Failed";
       output = "Compilation Failed\n\n";
       output += result.compile.stderr || result.compile.output || "";
+    } else if (result.run.signal) {
+      type = "error";
+      label = "Runtime Error";
+      output = `Runtime Error (Signal: ${result.run.signal})\n\n`;
+      if (result.run.stderr) output += result.run.stderr;
+      if (result.run.stdout) output += `\nOutput:\n${result.run.stdout}`;
     } else if (result.run.code === 0 || result.run.code === null) {
       type = "success";
       output =
@@ -64,11 +195,12 @@ export class PistonService {
         "✓ Program executed successfully (No output)";
     } else {
       type = "error";
+      label = "Runtime Error";
       output = `Runtime Error (Exit Code: ${result.run.code})\n\n`;
       if (result.run.stderr) output += result.run.stderr;
       if (result.run.stdout) output += `\nOutput:\n${result.run.stdout}`;
     }
 
-    return { text: output, type };
+    return { text: output, type, label };
   }
 }
@@ -0,0 +1,142 @@
+// src/services/StressTestService.ts
+
+import type {
+  CodeExecutor,
+  PistonExecuteResponse,
+  StressTestConfig,
+  StressTestOutcome,
+  StressTestProgram,
+} from "../types";
+import { SettingsManager } from "../managers/SettingsManager";
+import { outputsMatch } from "../utils/outputComparator";
+
+export class StressTestService {
+  private executor: CodeExecutor;
+  private settingsManager: SettingsManager;
+  private abortController: AbortController | null = null;
+  private running: boolean = false;
+
+  constructor(executor: CodeExecutor, settingsManager: SettingsManager) {
+    this.executor = executor;
+    this.settingsManager = settingsManager;
+  }
+
+  isRunning(): boolean {
+    return this.running;
+  }
+
+  // Aborts the program that is currently executing; run() then resolves
+  // with a "stopped" outcome
+  stop(): void {
+    this.abortController?.abort();
+  }
+
+  // generate input -> run brute force and solution -> compare, until the
+  // outputs differ, a program fails or the iteration limit is reached
+  async run(
+    config: StressTestConfig,
+    onProgress?: (iteration: number) => void
+  ): Promise<StressTestOutcome> {
+    const controller = new AbortController();
+    this.abortController = controller;
+    this.running = true;
+    const comparison = this.settingsManager.getComparisonSettings();
+    let iteration = 1;
+
+    try {
+      for (; iteration <= config.iterations; iteration++) {
+        onProgress?.(iteration);
+
+        const generated = await this.execute(
+          config.generator,
+          `${iteration}\n`
+        );
+        const generatorError = this.getFailure(generated);
+        if (generatorError) {
+          return {
+            status: "error",
+            iteration,
+            program: "generator",
+            input: `${iteration}`,
+            message: generatorError,
+          };
+        }
+
+        // Sequential on purpose: the public Piston API is rate limited
+        const input = generated.run.stdout;
+        const brute = await this.execute(config.brute, input);
+        const solution = await this.execute(config.solution, input);
+
+        const bruteError = this.getFailure(brute);
+        if (bruteError) {
+          return {
+            status: "error",
+            iteration,
+            program: "brute",
+            input,
+            message: bruteError,
+          };
+        }
+
+        const solutionError = this.getFailure(solution);
+        if (solutionError) {
+          return {
+            status: "error",
+            iteration,
+            program: "solution",
+            input,
+            message: solutionError,
+          };
+        }
+
+        if (!outputsMatch(solution.run.stdout, brute.run.stdout, comparison)) {
+          return {
+            status: "mismatch",
+            iteration,
+            input,
+            bruteOutput: brute.run.stdout,
+            solutionOutput: solution.run.stdout,
+          };
+        }
+      }
+
+      return { status: "passed", iterations: config.iterations };
+    } catch (error) {
+      if (controller.signal.aborted) {
+        return { status: "stopped", iterations: iteration - 1 };
+      }
+      throw error;
+    } finally {
+      this.abortController = null;
+      this.running = false;
+    }
+  }
+
+  private async execute(
+    program: StressTestProgram,
+    stdin: string
+  ): Promise<PistonExecuteResponse> {
+    return await this.executor.executeCode(
+      program.language,
+      program.files,
+      stdin,
+      { signal: this.abortController?.signal }
+    );
+  }
+
+  private getFailure(result: PistonExecuteResponse): string | null {
+    if (result.compile && result.compile.code !== 0) {
+      return `Compilation Failed\n\n${result.compile.stderr || result.compile.output || ""}`;
+    }
+    if (result.run.signal === "SIGKILL") {
+      return "Program terminated (timeout)";
+    }
+    if (result.run.signal) {
+      return `Runtime Error (Signal: ${result.run.signal})\n\n${result.run.stderr}`;
+    }
+    if (result.run.code !== 0 && result.run.code !== null) {
+      return `Runtime Error (Exit Code: ${result.run.code})\n\n${result.run.stderr}`;
+    }
+    return null;
+  }
+}
@@ -1,6 +1,12 @@
 // src/services/TemplateService.ts
 
 import { SettingsManager } from "../managers/SettingsManager";
+import {
+  RenderedTemplate,
+  getTemplateVariables,
+  renderTemplate,
+  toSnippetTemplate,
+} from "../utils/templateSyntax";
 
 export class TemplateService {
   private settingsManager: SettingsManager;
@@ -13,9 +19,32 @@ export class TemplateService {
     return this.settingsManager.getTemplate(templateType) || null;
   }
 
+  // The template as a CodeMirror snippet, with variables for the given file
+  getSnippetTemplate(templateType: string, fileName: string): string | null {
+    const template = this.getTemplate(templateType);
+    return template
+      ? toSnippetTemplate(template, this.getVariables(fileName))
+      : null;
+  }
+
+  // The template as plain text, for new tabs that start with it
+  renderTemplate(
+    templateType: string,
+    fileName: string
+  ): RenderedTemplate | null {
+    const template = this.getTemplate(templateType);
+    return template
+      ? renderTemplate(template, this.getVariables(fileName))
+      : null;
+  }
+
   getAllTemplateTypes(): string[] {
     return this.settingsManager
       .getAllTemplates()
       .map((template: any) => template.key);
   }
+
+  private getVariables(fileName: string): Record<string, string> {
+    return getTemplateVariables(fileName, this.settingsManager.getAuthor());
+  }
 }
@@ -1,5 +1,8 @@
 // src/types/index.ts
 
+import type { LanguageSupport } from "@codemirror/language";
+import type { EditorState } from "@codemirror/state";
+
 export interface Tab {
   id: number;
   name: string;
@@ -9,10 +12,145 @@ export interface Tab {
   modified: boolean;
   cursorPosition?: number;
   scrollTop?: number;
+  // Document, undo history, selection and folds while no pane shows the tab
+  editorState?: EditorState;
+  testCases: TestCase[];
+  attachedTabIds: number[];
+  // Tab whose program judges this tab's test cases instead of a plain
+  // output comparison
+  checkerTabId: number | null;
+  // Language picked in the status bar, used instead of the file extension
+  languageOverride: string | null;
+  // Language guessed from the content of tabs without a known extension
+  detectedLanguage: string | null;
+  problem?: ProblemInfo;
+}
+
+// "right" puts the second pane beside the first, "down" below it
+export type SplitDirection = "right" | "down";
+
+// One side of the split editor, with its own tab strip. A tab can be open
+// in both panes at once.
+export interface EditorPane {
+  id: number;
+  tabIds: number[];
+  activeTabId: number | null;
+}
+
+// Where a tab's problem came from, for tabs imported from Competitive Companion
+export interface ProblemInfo {
+  name: string;
+  group: string;
+  url: string;
+  timeLimit: number | null;
+  memoryLimit: number | null;
+}
+
+// Payload of the "companion-problem" event (subset of Competitive Companion's
+// format). Time limit in milliseconds, memory limit in megabytes.
+export interface CompanionProblem {
+  name: string;
+  group: string;
+  url: string;
+  tests: Array<{ input: string; output: string }>;
+  timeLimit: number | null;
+  memoryLimit: number | null;
+}
+
+export interface CompanionSettings {
+  templateKey: string;
+  extension: string;
+}
+
+export interface SourceFile {
+  name: string;
+  content: string;
+}
+
+// Attachments left out because another file already has their name
+export interface SourceFileSet {
+  files: SourceFile[];
+  duplicateNames: string[];
+}
+
+export interface TestCase {
+  id: number;
+  stdin: string;
+  expectedOutput: string;
+}
+
+export type Verdict = "AC" | "WA" | "TLE" | "RE" | "CE" | "FAIL";
+
+export type ComparisonMode =
+  "exact" | "trailing-whitespace" | "token" | "float";
+
+export interface ComparisonSettings {
+  mode: ComparisonMode;
+  // Used by "float": numbers match within either tolerance
+  absoluteEpsilon: number;
+  relativeEpsilon: number;
+}
+
+export type DiffView = "side-by-side" | "inline";
+
+// 0-based position of the first mismatch. `token` is the index among the
+// whitespace-separated tokens of that line, or null when the lines differ
+// only in whitespace. A side that ran out of lines/tokens has no position.
+export interface DiffPosition {
+  line: number;
+  token: number | null;
+}
+
+export interface ComparisonResult {
+  match: boolean;
+  expected: DiffPosition | null;
+  actual: DiffPosition | null;
+}
+
+export interface TestCaseResult {
+  testCaseId: number;
+  verdict: Verdict;
+  stdout: string;
+  stderr: string;
+  elapsedMs: number;
+  // Set when a checker program produced the verdict
+  checkerMessage?: string;
 }
 
 export type TemplateType = "csharp" | "cpp" | "python" | "java";
 
+export interface CommentTokens {
+  line?: string;
+  block?: [open: string, close: string];
+}
+
+// An entry of the language registry (src/languages)
+export interface LanguageDefinition {
+  id: string;
+  name: string;
+  // Without the dot; the first one is used for new files
+  extensions: string[];
+  support: () => LanguageSupport;
+  comments: CommentTokens;
+  // Only languages with a Piston id can be run
+  pistonId?: string;
+  // Entry file name sent to the executor. Java uses the public class name
+  // instead when one is declared.
+  sourceFileName?: string;
+  // The local backend knows how to build it (g++, gcc, python3, javac, node)
+  localRunner?: boolean;
+  template?: TemplateType;
+}
+
+// A completion that expands into a CodeMirror snippet template: `${name}`
+// marks a field, `${}` the final cursor position, and Tab moves between them
+export interface CodeSnippet {
+  id: string;
+  language: string;
+  label: string;
+  body: string;
+}
+
 export interface FileFilter {
   name: string;
   extensions: string[];
@@ -26,17 +164,32 @@ export interface PistonExecuteRequest {
     name?: string;
   }>;
   stdin?: string;
+  args?: string[];
   compile_timeout?: number;
   run_timeout?: number;
 }
 
+export interface PistonRuntime {
+  language: string;
+  version: string;
+  aliases: string[];
+  runtime?: string;
+}
+
+export interface PistonSettings {
+  baseUrl: string;
+  authHeaderName: string;
+  authHeaderValue: string;
+}
+
 export interface PistonExecuteResponse {
   language: string;
   version: string;
   compile?: {
     stdout: string;
     stderr: string;
-    code: number;
+    code: number | null;
+    signal?: string | null;
     output: string;
   };
   run: {
@@ -48,6 +201,135 @@ export interface PistonExecuteResponse {
   };
 }
 
+export interface RunHistoryEntry {
+  id: number;
+  timestamp: number;
+  language: string;
+  version: string;
+  stdin: string;
+  stdout: string;
+  stderr: string;
+  exitCode: number | null;
+  signal: string | null;
+  codeHash: string;
+  elapsedMs: number;
+}
+
+export interface DiffLine {
+  type: "same" | "added" | "removed";
+  text: string;
+}
+
+export interface CompilerDiagnostic {
+  file: string | null;
+  line: number;
+  column: number | null;
+  severity: "error" | "warning" | "info";
+  message: string;
+}
+
+// A find result in one of the open tabs
+export interface TabSearchMatch {
+  tabId: number;
+  tabName: string;
+  from: number;
+  to: number;
+  line: number;
+  lineText: string;
+}
+
+// An action run from the toolbar, a menu, a keybinding or the command
+// palette
+export interface Command {
+  id: string;
+  // Groups the command in the palette: "File", "View", "Template", ...
+  category: string;
+  title: string;
+  // "Ctrl+Shift+P", "Alt+N", "F2"
+  keybinding?: string;
+  // Disabled commands are left out of the palette and ignore their keybinding
+  isEnabled?: () => boolean;
+  run: () => void;
+}
+
+// Key handling of the editor itself, on top of the app's keybindings
+export type KeymapMode = "default" | "vim" | "emacs";
+
+export type ExecutionBackendId = "piston" | "local";
+
+export interface ExecutionTimeouts {
+  compile: number;
+  run: number;
+}
+
+// A named set of build options for one language, e.g. "Debug" or "Release".
+// `standard` is empty for the compiler default.
+export interface BuildProfile {
+  id: string;
+  name: string;
+  standard: string;
+  compileArgs: string[];
+  runArgs: string[];
+}
+
+export interface BuildArgs {
+  compileArgs: string[];
+  runArgs: string[];
+}
+
+export interface ExecuteOptions {
+  timeouts?: ExecutionTimeouts;
+  buildArgs?: BuildArgs;
+  signal?: AbortSignal;
+}
+
+export interface CodeExecutor {
+  executeCode(
+    language: string,
+    files: SourceFile[],
+    stdin?: string,
+    options?: ExecuteOptions
+  ): Promise<PistonExecuteResponse>;
+}
+
+export interface StressTestProgram {
+  language: string;
+  files: SourceFile[];
+}
+
+// A checker is run as `checker input.txt output.txt answer.txt` (testlib
+// style), so it carries the build args the extra arguments are appended to
+export interface CheckerProgram {
+  language: string;
+  files: SourceFile[];
+  buildArgs: BuildArgs;
+}
+
+export interface StressTestConfig {
+  generator: StressTestProgram;
+  brute: StressTestProgram;
+  solution: StressTestProgram;
+  iterations: number;
+}
+
+export type StressTestOutcome =
+  | { status: "passed"; iterations: number }
+  | { status: "stopped"; iterations: number }
+  | {
+      status: "mismatch";
+      iteration: number;
+      input: string;
+      bruteOutput: string;
+      solutionOutput: string;
+    }
+  | {
+      status: "error";
+      iteration: number;
+      program: "generator" | "brute" | "solution";
+      input: string;
+      message: string;
+    };
+
 export interface EditorConfig {
   tabSize: number;
   defaultFileName: string;
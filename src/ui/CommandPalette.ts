@@ -0,0 +1,255 @@
+// src/ui/CommandPalette.ts
+
+import { PALETTE_CONFIG } from "../constants";
+import { fuzzyMatch } from "../utils/fuzzyMatch";
+
+export interface PaletteItem {
+  label: string;
+  category: string;
+  // Shown on the right, e.g. the command's keybinding
+  detail?: string;
+  run: () => void;
+}
+
+interface PaletteMatch {
+  item: PaletteItem;
+  // Positions in "Category: Label"
+  indices: number[];
+}
+
+// ":42" jumps to line 42
+const GO_TO_LINE_PATTERN = /^:\s*(\d*)\s*$/;
+
+export class CommandPalette {
+  private getItems: () => PaletteItem[];
+  private onGoToLine: (line: number) => void;
+  private palette: HTMLElement | null = null;
+  private input: HTMLInputElement | null = null;
+  private list: HTMLElement | null = null;
+  private matches: PaletteMatch[] = [];
+  private selectedIndex: number = 0;
+  private previousFocus: HTMLElement | null = null;
+
+  constructor(
+    getItems: () => PaletteItem[],
+    onGoToLine: (line: number) => void
+  ) {
+    this.getItems = getItems;
+    this.onGoToLine = onGoToLine;
+  }
+
+  initialize(): void {
+    this.palette = document.getElementById("command-palette");
+    this.input = document.getElementById("palette-input") as HTMLInputElement;
+    this.list = document.getElementById("palette-list");
+    if (!this.palette || !this.input || !this.list) return;
+
+    this.input.addEventListener("input", () => this.update());
+    this.input.addEventListener("keydown", (e) => this.handleKeydown(e));
+
+    // Clicking anywhere else closes the palette
+    document.addEventListener("mousedown", (e) => {
+      if (this.isOpen() && !this.palette?.contains(e.target as Node)) {
+        this.hide(false);
+      }
+    });
+  }
+
+  isOpen(): boolean {
+    return !!this.palette?.classList.contains("show");
+  }
+
+  show(prefix: string = ""): void {
+    if (!this.palette || !this.input) return;
+
+    if (!this.isOpen()) {
+      this.previousFocus = document.activeElement as HTMLElement | null;
+    }
+    this.palette.classList.add("show");
+    this.input.value = prefix;
+    this.update();
+    this.input.focus();
+  }
+
+  // Focus goes back to where it was, normally the editor
+  hide(restoreFocus: boolean = true): void {
+    this.palette?.classList.remove("show");
+    if (restoreFocus) this.previousFocus?.focus();
+    this.previousFocus = null;
+  }
+
+  private update(): void {
+    const query = this.input?.value ?? "";
+    const goToLine = query.match(GO_TO_LINE_PATTERN);
+
+    this.matches = goToLine
+      ? [{ item: this.createGoToLineItem(goToLine[1]), indices: [] }]
+      : this.filterItems(query);
+    this.selectedIndex = 0;
+    this.render();
+  }
+
+  private createGoToLineItem(line: string): PaletteItem {
+    const lineNumber = parseInt(line, 10);
+    return {
+      label: line ? `Go to Line ${line}` : "Type a line number",
+      category: "Edit",
+      run: () => {
+        if (lineNumber > 0) this.onGoToLine(lineNumber);
+      },
+    };
+  }
+
+  // Best matches first; without a query the items keep their order
+  private filterItems(query: string): PaletteMatch[] {
+    const items = this.getItems();
+    if (!query.trim()) {
+      return items
+        .slice(0, PALETTE_CONFIG.maxResults)
+        .map((item) => ({ item, indices: [] }));
+    }
+
+    return items
+      .map((item) => ({
+        item,
+        match: fuzzyMatch(query, this.getItemText(item)),
+      }))
+      .filter((result) => result.match !== null)
+      .sort((a, b) => b.match!.score - a.match!.score)
+      .slice(0, PALETTE_CONFIG.maxResults)
+      .map(({ item, match }) => ({ item, indices: match!.indices }));
+  }
+
+  private getItemText(item: PaletteItem): string {
+    return `${item.category}: ${item.label}`;
+  }
+
+  private render(): void {
+    if (!this.list) return;
+    this.list.innerHTML = "";
+
+    if (this.matches.length === 0) {
+      const empty = document.createElement("div");
+      empty.className = "palette-empty";
+      empty.textContent = "No matching commands";
+      this.list.appendChild(empty);
+      return;
+    }
+
+    this.matches.forEach((match, index) => {
+      this.list!.appendChild(this.createItemElement(match, index));
+    });
+  }
+
+  private createItemElement(match: PaletteMatch, index: number): HTMLElement {
+    const { item, indices } = match;
+    const element = document.createElement("div");
+    element.className = "palette-item";
+    element.classList.toggle("selected", index === this.selectedIndex);
+
+    const categoryLength = item.category.length + 2;
+    const category = document.createElement("span");
+    category.className = "palette-category";
+    this.appendHighlighted(category, `${item.category}: `, indices, 0);
+
+    const label = document.createElement("span");
+    label.className = "palette-label";
+    this.appendHighlighted(label, item.label, indices, categoryLength);
+
+    const text = document.createElement("span");
+    text.className = "palette-text";
+    text.append(category, label);
+    element.appendChild(text);
+
+    if (item.detail) {
+      const detail = document.createElement("span");
+      detail.className = "shortcut";
+      detail.textContent = item.detail;
+      element.appendChild(detail);
+    }
+
+    // mousedown would blur the input before the click lands
+    element.addEventListener("mousedown", (e) => e.preventDefault());
+    element.addEventListener("click", () => this.runItem(index));
+    return element;
+  }
+
+  // Wraps the matched characters, which are offset by what came before
+  private appendHighlighted(
+    parent: HTMLElement,
+    text: string,
+    indices: number[],
+    offset: number
+  ): void {
+    const matched = new Set(indices.map((index) => index - offset));
+    let run = "";
+    let runMatched = false;
+
+    const flush = () => {
+      if (!run) return;
+      if (runMatched) {
+        const mark = document.createElement("span");
+        mark.className = "palette-match";
+        mark.textContent = run;
+        parent.appendChild(mark);
+      } else {
+        parent.appendChild(document.createTextNode(run));
+      }
+      run = "";
+    };
+
+    text.split("").forEach((char, index) => {
+      const isMatched = matched.has(index);
+      if (isMatched !== runMatched) {
+        flush();
+        runMatched = isMatched;
+      }
+      run += char;
+    });
+    flush();
+  }
+
+  private handleKeydown(e: KeyboardEvent): void {
+    switch (e.key) {
+      case "ArrowDown":
+        e.preventDefault();
+        this.select(this.selectedIndex + 1);
+        break;
+      case "ArrowUp":
+        e.preventDefault();
+        this.select(this.selectedIndex - 1);
+        break;
+      case "Enter":
+        e.preventDefault();
+        this.runItem(this.selectedIndex);
+        break;
+      case "Escape":
+        // Keeps the runner's Escape binding from firing as well
+        e.preventDefault();
+        e.stopPropagation();
+        this.hide();
+        break;
+    }
+  }
+
+  // Wraps around at either end
+  private select(index: number): void {
+    if (!this.list || this.matches.length === 0) return;
+
+    const count = this.matches.length;
+    this.selectedIndex = (index + count) % count;
+    const items = this.list.querySelectorAll(".palette-item");
+    items.forEach((item, i) =>
+      item.classList.toggle("selected", i === this.selectedIndex)
+    );
+    items[this.selectedIndex]?.scrollIntoView({ block: "nearest" });
+  }
+
+  private runItem(index: number): void {
+    const match = this.matches[index];
+    if (!match) return;
+
+    this.hide();
+    match.item.run();
+  }
+}
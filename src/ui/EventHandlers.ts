@@ -1,62 +1,66 @@
 // src/ui/EventHandlers.ts
 
 import { SettingsManager } from "../managers/SettingsManager";
+import { CommandRegistry } from "../managers/CommandRegistry";
+import type { ComparisonMode, ComparisonSettings, DiffView } from "../types";
+import { getKeybinding } from "../utils/keybindings";
+import type { RunnerPanel } from "./ModalManager";
 
 interface EventCallbacks {
-  onNewFile: () => void;
-  onOpenFile: () => void;
-  onSaveFile: () => void;
   onRunCode: () => void;
-  onShowRunnerModal: () => void;
+  onRunSelection: () => void;
+  onWrapSelectionChange: (wrap: boolean) => void;
+  onCancelRun: () => void;
   onHideRunnerModal: () => void;
   onToggleInput: () => void;
   onClearOutput: () => void;
-  onInsertTemplate: (type: string) => void;
-  onCloseActiveTab: () => void;
-  onSwitchNextTab: () => void;
+  onRuntimeVersionChange: (version: string) => void;
+  onBuildProfileChange: (profileId: string) => void;
+  onComparisonChange: (changes: Partial<ComparisonSettings>) => void;
+  onDiffViewChange: (view: DiffView) => void;
+  onCheckerChange: (checkerTabId: number | null) => void;
+  onAddTestCase: () => void;
+  onRunAllTestCases: () => void;
+  onSwitchRunnerPanel: (panel: RunnerPanel) => void;
+  onStartStressTest: () => void;
+  onStopStressTest: () => void;
+  onClearRunHistory: () => void;
   onHideCSharpWarning: () => void;
-  onRenameActiveTab: () => void;
-  onShowSettings: () => void;
-  onZoomIn: () => void;
-  onZoomOut: () => void;
 }
 
+// Toolbar buttons, dropdown items and keybindings run commands from the
+// registry; the runner's own controls still go through callbacks
 export class EventHandlers {
   private callbacks: EventCallbacks;
   private settingsManager: SettingsManager;
+  private commands: CommandRegistry;
 
-  constructor(callbacks: EventCallbacks, settingsManager: SettingsManager) {
+  constructor(
+    callbacks: EventCallbacks,
+    settingsManager: SettingsManager,
+    commands: CommandRegistry
+  ) {
     this.callbacks = callbacks;
     this.settingsManager = settingsManager;
+    this.commands = commands;
   }
 
   initialize(): void {
-    this.setupButtonHandlers();
+    this.setupCommandHandlers();
     this.setupModalHandlers();
     this.setupDropdownHandlers();
     this.setupKeyboardShortcuts();
   }
 
-  private setupButtonHandlers(): void {
-    document
-      .getElementById("btn-new")
-      ?.addEventListener("click", () => this.callbacks.onNewFile());
-
-    document
-      .getElementById("btn-open")
-      ?.addEventListener("click", () => this.callbacks.onOpenFile());
-
-    document
-      .getElementById("btn-save")
-      ?.addEventListener("click", () => this.callbacks.onSaveFile());
-
-    document
-      .getElementById("btn-run")
-      ?.addEventListener("click", () => this.callbacks.onShowRunnerModal());
-
-    document
-      .getElementById("btn-settings")
-      ?.addEventListener("click", () => this.callbacks.onShowSettings());
+  // Anything marked with data-command runs that command when clicked
+  private setupCommandHandlers(): void {
+    document.addEventListener("click", (e) => {
+      const element = (e.target as HTMLElement).closest<HTMLElement>(
+        "[data-command]"
+      );
+      const commandId = element?.dataset.command;
+      if (commandId) this.commands.execute(commandId);
+    });
   }
 
   private setupModalHandlers(): void {
@@ -83,12 +87,115 @@ export class EventHandlers {
       .getElementById("btn-run-code")
       ?.addEventListener("click", () => this.callbacks.onRunCode());
 
+    document
+      .getElementById("btn-run-selection")
+      ?.addEventListener("click", () => this.callbacks.onRunSelection());
+
+    document
+      .getElementById("wrap-selection")
+      ?.addEventListener("change", (e) => {
+        const checkbox = e.target as HTMLInputElement;
+        this.callbacks.onWrapSelectionChange(checkbox.checked);
+      });
+
+    document
+      .getElementById("btn-cancel-run")
+      ?.addEventListener("click", () => this.callbacks.onCancelRun());
+
+    document
+      .getElementById("btn-add-testcase")
+      ?.addEventListener("click", () => this.callbacks.onAddTestCase());
+
+    document
+      .getElementById("btn-run-all")
+      ?.addEventListener("click", () => this.callbacks.onRunAllTestCases());
+
+    document
+      .getElementById("runner-tab-run")
+      ?.addEventListener("click", () => this.callbacks.onSwitchRunnerPanel("run"));
+
+    document
+      .getElementById("runner-tab-stress")
+      ?.addEventListener("click", () =>
+        this.callbacks.onSwitchRunnerPanel("stress")
+      );
+
+    document
+      .getElementById("runner-tab-history")
+      ?.addEventListener("click", () =>
+        this.callbacks.onSwitchRunnerPanel("history")
+      );
+
+    document
+      .getElementById("btn-clear-history")
+      ?.addEventListener("click", () => this.callbacks.onClearRunHistory());
+
+    document
+      .getElementById("btn-stress-start")
+      ?.addEventListener("click", () => this.callbacks.onStartStressTest());
+
+    document
+      .getElementById("btn-stress-stop")
+      ?.addEventListener("click", () => this.callbacks.onStopStressTest());
+
+    document.getElementById("runtime-select")?.addEventListener("change", (e) => {
+      const select = e.target as HTMLSelectElement;
+      this.callbacks.onRuntimeVersionChange(select.value);
+    });
+
+    document
+      .getElementById("profile-select")
+      ?.addEventListener("change", (e) => {
+        const select = e.target as HTMLSelectElement;
+        this.callbacks.onBuildProfileChange(select.value);
+      });
+
+    document
+      .getElementById("checker-select")
+      ?.addEventListener("change", (e) => {
+        const select = e.target as HTMLSelectElement;
+        this.callbacks.onCheckerChange(
+          select.value ? parseInt(select.value, 10) : null
+        );
+      });
+
+    // Output comparison
+    document.getElementById("compare-mode")?.addEventListener("change", (e) => {
+      const select = e.target as HTMLSelectElement;
+      this.callbacks.onComparisonChange({
+        mode: select.value as ComparisonMode,
+      });
+    });
+
+    this.setupEpsilonInput("abs-epsilon", (value) =>
+      this.callbacks.onComparisonChange({ absoluteEpsilon: value })
+    );
+    this.setupEpsilonInput("rel-epsilon", (value) =>
+      this.callbacks.onComparisonChange({ relativeEpsilon: value })
+    );
+
+    document.getElementById("diff-view")?.addEventListener("change", (e) => {
+      const select = e.target as HTMLSelectElement;
+      this.callbacks.onDiffViewChange(select.value as DiffView);
+    });
+
     // C# Warning modal
     document
       .getElementById("csharp-warning-close")
       ?.addEventListener("click", () => this.callbacks.onHideCSharpWarning());
   }
 
+  // Negative or non-numeric tolerances are ignored
+  private setupEpsilonInput(
+    id: string,
+    onChange: (value: number) => void
+  ): void {
+    document.getElementById(id)?.addEventListener("change", (e) => {
+      const value = parseFloat((e.target as HTMLInputElement).value);
+      if (Number.isFinite(value) && value >= 0) onChange(value);
+    });
+  }
+
   private setupDropdownHandlers(): void {
     // Templates dropdown
     document.getElementById("btn-templates")?.addEventListener("click", (e) => {
@@ -112,29 +219,6 @@ export class EventHandlers {
         dropdown.classList.remove("show");
       });
     });
-
-    // Delegate event handling for template dropdown items
-    document
-      .querySelector(".dropdown-content.templates")
-      ?.addEventListener("click", (e) => {
-        const target = e.target as HTMLElement;
-        const item = target.closest(".dropdown-item") as HTMLElement;
-        if (item) {
-          const templateType = item.getAttribute("data-template");
-          if (templateType) {
-            this.callbacks.onInsertTemplate(templateType);
-          }
-        }
-      });
-
-    // View dropdown items
-    document.getElementById("zoom-in-item")?.addEventListener("click", () => {
-      this.callbacks.onZoomIn();
-    });
-
-    document.getElementById("zoom-out-item")?.addEventListener("click", () => {
-      this.callbacks.onZoomOut();
-    });
   }
 
   private updateTemplateDropdown(): void {
@@ -153,105 +237,59 @@ export class EventHandlers {
     templates.forEach((template) => {
       const item = document.createElement("button");
       item.className = "dropdown-item";
-      item.setAttribute("data-template", template.key);
+      const commandId = `template.${template.key}`;
+      item.setAttribute("data-command", commandId);
 
       const nameSpan = document.createElement("span");
       nameSpan.textContent = template.name;
 
-      item.appendChild(nameSpan);
-
-      // Add keyboard shortcut hint for default templates
-      if (template.key === "csharp") {
-        const shortcut = document.createElement("span");
-        shortcut.className = "shortcut";
-        shortcut.textContent = "Ctrl+3";
-        item.appendChild(shortcut);
-      } else if (template.key === "cpp") {
-        const shortcut = document.createElement("span");
-        shortcut.className = "shortcut";
-        shortcut.textContent = "Ctrl+4";
-        item.appendChild(shortcut);
-      } else if (template.key === "python") {
-        const shortcut = document.createElement("span");
-        shortcut.className = "shortcut";
-        shortcut.textContent = "Ctrl+5";
-        item.appendChild(shortcut);
-      } else if (template.key === "java") {
-        const shortcut = document.createElement("span");
-        shortcut.className = "shortcut";
-        shortcut.textContent = "Ctrl+6";
-        item.appendChild(shortcut);
-      }
+      const shortcut = document.createElement("span");
+      shortcut.className = "shortcut";
+      shortcut.textContent = this.commands.get(commandId)?.keybinding ?? "";
 
+      item.append(nameSpan, shortcut);
       dropdownContent.appendChild(item);
     });
   }
 
-  private setupKeyboardShortcuts(): void {
-    document.addEventListener("keydown", (e) => {
-      // F2 - Rename active tab
-      if (e.key === "F2") {
-        e.preventDefault();
-        this.callbacks.onRenameActiveTab();
-        return;
-      }
-
-      // Escape key
-      if (e.key === "Escape") {
-        const modal = document.getElementById("runner-modal");
-        if (modal?.classList.contains("show")) {
-          e.preventDefault();
-          this.callbacks.onHideRunnerModal();
-          return;
-        }
-      }
-
-      // Alt+N - Run code
-      if (e.altKey && e.key === "n") {
-        e.preventDefault();
-        this.callbacks.onShowRunnerModal();
-        return;
-      }
-
-      // Ctrl shortcuts
-      if (!e.ctrlKey) return;
-
-      // Zoom shortcuts
-      if (e.key === "=" || e.key === "+") {
-        e.preventDefault();
-        this.callbacks.onZoomIn();
-        return;
-      }
+  // Fills the .shortcut hints of items with data-command; data-shortcut
+  // names another command whose keybinding should be shown instead
+  private updateShortcutHints(): void {
+    document
+      .querySelectorAll<HTMLElement>("[data-command]")
+      .forEach((element) => {
+        const hint = element.querySelector(".shortcut");
+        if (!hint) return;
 
-      if (e.key === "-" || e.key === "_") {
-        e.preventDefault();
-        this.callbacks.onZoomOut();
-        return;
-      }
+        const commandId = element.dataset.shortcut ?? element.dataset.command;
+        hint.textContent = this.commands.get(commandId ?? "")?.keybinding ?? "";
+      });
+  }
 
-      const shortcuts: Record<string, () => void> = {
-        "3": () => this.callbacks.onInsertTemplate("csharp"),
-        "4": () => this.callbacks.onInsertTemplate("cpp"),
-        "5": () => this.callbacks.onInsertTemplate("python"),
-        "6": () => this.callbacks.onInsertTemplate("java"),
-        s: () => this.callbacks.onSaveFile(),
-        o: () => this.callbacks.onOpenFile(),
-        n: () => this.callbacks.onNewFile(),
-        w: () => this.callbacks.onCloseActiveTab(),
-        Tab: () => this.callbacks.onSwitchNextTab(),
-        ",": () => this.callbacks.onShowSettings(),
-      };
-
-      const handler = shortcuts[e.key];
-      if (handler) {
+  private setupKeyboardShortcuts(): void {
+    document.addEventListener("keydown", (e) => {
+      // Keys the Vim or Emacs keymap handled, such as Emacs's Ctrl+N, stay
+      // with the editor
+      const keymapMode = this.settingsManager.getKeymapMode();
+      if (e.defaultPrevented && keymapMode !== "default") return;
+
+      const keybinding = getKeybinding(e);
+      if (!keybinding) return;
+
+      // Disabled commands leave the key to the editor, e.g. Escape while
+      // the runner is closed
+      const command = this.commands.findByKeybinding(keybinding);
+      if (command && this.commands.isEnabled(command.id)) {
         e.preventDefault();
-        handler();
+        this.commands.execute(command.id);
       }
     });
   }
 
-  // Public method to refresh dropdown (called after template changes)
+  // Public method to refresh the template dropdown and every shortcut hint
+  // (called after templates or keybindings change)
   public refreshTemplateDropdown(): void {
     this.updateTemplateDropdown();
+    this.updateShortcutHints();
   }
 }
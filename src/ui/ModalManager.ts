@@ -1,6 +1,38 @@
 // src/ui/ModalManager.ts
 
-import type { OutputType } from "../types";
+import type {
+  CompilerDiagnostic,
+  ComparisonSettings,
+  DiffView,
+  OutputType,
+  ProblemInfo,
+  StressTestOutcome,
+} from "../types";
+import { COMPARISON_MODES } from "../constants";
+
+export type RunnerPanel = "run" | "stress" | "history";
+
+export interface StressSelection {
+  generatorTabId: number | null;
+  bruteTabId: number | null;
+  solutionTabId: number | null;
+  iterations: number;
+}
+
+const STRESS_SELECTS: Record<
+  "generatorTabId" | "bruteTabId" | "solutionTabId",
+  string
+> = {
+  generatorTabId: "stress-generator",
+  bruteTabId: "stress-brute",
+  solutionTabId: "stress-solution",
+};
+
+const STRESS_PROGRAM_NAMES = {
+  generator: "Generator",
+  brute: "Brute force",
+  solution: "Solution",
+};
 
 export class ModalManager {
   // Runner Modal
@@ -18,6 +50,329 @@ export class ModalManager {
     }
   }
 
+  isRunnerModalOpen(): boolean {
+    return !!document
+      .getElementById("runner-modal")
+      ?.classList.contains("show");
+  }
+
+  // Runner Panels
+  switchRunnerPanel(panel: RunnerPanel): void {
+    (["run", "stress", "history"] as RunnerPanel[]).forEach((key) => {
+      const visible = key === panel;
+      document
+        .getElementById(`runner-tab-${key}`)
+        ?.classList.toggle("active", visible);
+
+      const body = document.getElementById(`runner-${key}-panel`);
+      const footer = document.getElementById(`runner-${key}-footer`);
+      if (body) body.style.display = visible ? "flex" : "none";
+      if (footer) footer.style.display = visible ? "flex" : "none";
+    });
+  }
+
+  // Stress Test
+  renderStressOptions(
+    tabs: Array<{ id: number; name: string }>,
+    selection: StressSelection
+  ): void {
+    (Object.keys(STRESS_SELECTS) as Array<keyof typeof STRESS_SELECTS>).forEach(
+      (key) => {
+        const select = document.getElementById(
+          STRESS_SELECTS[key]
+        ) as HTMLSelectElement;
+        if (!select) return;
+
+        select.innerHTML = "";
+        const none = document.createElement("option");
+        none.value = "";
+        none.textContent = "Select a tab...";
+        select.appendChild(none);
+
+        tabs.forEach((tab) => {
+          const option = document.createElement("option");
+          option.value = tab.id.toString();
+          option.textContent = tab.name;
+          select.appendChild(option);
+        });
+
+        const selected = selection[key];
+        select.value =
+          selected !== null && tabs.some((t) => t.id === selected)
+            ? selected.toString()
+            : "";
+      }
+    );
+
+    const iterationsInput = document.getElementById(
+      "stress-iterations"
+    ) as HTMLInputElement;
+    if (iterationsInput) {
+      iterationsInput.value = selection.iterations.toString();
+    }
+  }
+
+  readStressSelection(): StressSelection {
+    const readTabId = (id: string): number | null => {
+      const select = document.getElementById(id) as HTMLSelectElement;
+      return select?.value ? parseInt(select.value, 10) : null;
+    };
+
+    const iterationsInput = document.getElementById(
+      "stress-iterations"
+    ) as HTMLInputElement;
+    const iterations = parseInt(iterationsInput?.value || "", 10);
+
+    return {
+      generatorTabId: readTabId(STRESS_SELECTS.generatorTabId),
+      bruteTabId: readTabId(STRESS_SELECTS.bruteTabId),
+      solutionTabId: readTabId(STRESS_SELECTS.solutionTabId),
+      iterations: iterations > 0 ? iterations : 100,
+    };
+  }
+
+  setStressRunning(running: boolean): void {
+    const startButton = document.getElementById(
+      "btn-stress-start"
+    ) as HTMLButtonElement;
+    const stopButton = document.getElementById(
+      "btn-stress-stop"
+    ) as HTMLButtonElement;
+
+    if (startButton) {
+      startButton.disabled = running;
+      startButton.textContent = running ? "Running..." : "Start";
+    }
+    if (stopButton) stopButton.disabled = !running;
+  }
+
+  setStressStatus(text: string): void {
+    const status = document.getElementById("stress-status");
+    if (status) status.textContent = text;
+  }
+
+  displayStressMessage(text: string, type: OutputType): void {
+    const output = document.getElementById("stress-output");
+    if (output) {
+      output.className = `output-display output-${type}`;
+      output.textContent = text;
+    }
+  }
+
+  displayStressOutcome(outcome: StressTestOutcome): void {
+    const output = document.getElementById("stress-output");
+    if (!output) return;
+
+    switch (outcome.status) {
+      case "passed":
+        this.displayStressMessage(
+          `✓ All ${outcome.iterations} iteration(s) matched`,
+          "success"
+        );
+        return;
+      case "stopped":
+        this.displayStressMessage(
+          `Stopped after ${outcome.iterations} matching iteration(s)`,
+          "running"
+        );
+        return;
+    }
+
+    output.className = "output-display output-error";
+    output.innerHTML = "";
+
+    const title = document.createElement("div");
+    title.className = "stress-output-block";
+    title.textContent =
+      outcome.status === "mismatch"
+        ? `✗ Outputs differ on iteration ${outcome.iteration}`
+        : `✗ ${STRESS_PROGRAM_NAMES[outcome.program]} failed on iteration ${outcome.iteration}`;
+    output.appendChild(title);
+
+    const blocks: Array<[string, string]> =
+      outcome.status === "mismatch"
+        ? [
+          ["Input", outcome.input],
+          ["Brute Force Output", outcome.bruteOutput],
+          ["Solution Output", outcome.solutionOutput],
+        ]
+        : [
+          ["Input", outcome.input],
+          ["Details", outcome.message],
+        ];
+
+    blocks.forEach(([heading, text]) => {
+      const block = document.createElement("div");
+      block.className = "stress-output-block";
+
+      const h5 = document.createElement("h5");
+      h5.textContent = heading;
+
+      const pre = document.createElement("pre");
+      pre.textContent = text || "(empty)";
+
+      block.appendChild(h5);
+      block.appendChild(pre);
+      output.appendChild(block);
+    });
+  }
+
+  // Runtime Selector
+  setRuntimeOptions(versions: string[], selected: string): void {
+    const select = document.getElementById(
+      "runtime-select"
+    ) as HTMLSelectElement;
+    if (!select) return;
+
+    select.innerHTML = "";
+
+    const latest = document.createElement("option");
+    latest.value = "*";
+    latest.textContent = "Latest installed";
+    select.appendChild(latest);
+
+    versions.forEach((version) => {
+      const option = document.createElement("option");
+      option.value = version;
+      option.textContent = version;
+      select.appendChild(option);
+    });
+
+    select.value = versions.includes(selected) ? selected : "*";
+    select.disabled = false;
+  }
+
+  setRuntimeStatus(text: string, isError: boolean = false): void {
+    const status = document.getElementById("runtime-status");
+    if (status) {
+      status.textContent = text;
+      status.classList.toggle("error", isError);
+    }
+  }
+
+  // Limits of an imported problem, shown next to the test case summary
+  // The run timeout is shown next to the time limit it was derived from
+  setProblemInfo(problem: ProblemInfo | null, runTimeout?: number): void {
+    const limits = document.getElementById("problem-limits");
+    if (!limits) return;
+
+    if (!problem) {
+      limits.textContent = "";
+      limits.title = "";
+      return;
+    }
+
+    limits.textContent = [
+      problem.timeLimit !== null ? `${problem.timeLimit / 1000} s` : "",
+      runTimeout !== undefined ? `stops at ${runTimeout / 1000} s` : "",
+      problem.memoryLimit !== null ? `${problem.memoryLimit} MB` : "",
+    ]
+      .filter(Boolean)
+      .join(" · ");
+    limits.title = [problem.name, problem.group, problem.url]
+      .filter(Boolean)
+      .join("\n");
+  }
+
+  // Checker Selector
+  setCheckerOptions(
+    tabs: Array<{ id: number; name: string }>,
+    selectedId: number | null
+  ): void {
+    const select = document.getElementById(
+      "checker-select"
+    ) as HTMLSelectElement;
+    if (!select) return;
+
+    select.innerHTML = "";
+    const none = document.createElement("option");
+    none.value = "";
+    none.textContent = "Compare output";
+    select.appendChild(none);
+
+    tabs.forEach((tab) => {
+      const option = document.createElement("option");
+      option.value = tab.id.toString();
+      option.textContent = `Checker: ${tab.name}`;
+      select.appendChild(option);
+    });
+
+    select.value =
+      selectedId !== null && tabs.some((t) => t.id === selectedId)
+        ? selectedId.toString()
+        : "";
+  }
+
+  // Output Comparison Controls
+  setComparisonControls(settings: ComparisonSettings, view: DiffView): void {
+    const modeSelect = document.getElementById(
+      "compare-mode"
+    ) as HTMLSelectElement;
+    if (modeSelect) {
+      if (modeSelect.options.length === 0) {
+        Object.entries(COMPARISON_MODES).forEach(([mode, label]) => {
+          const option = document.createElement("option");
+          option.value = mode;
+          option.textContent = label;
+          modeSelect.appendChild(option);
+        });
+      }
+      modeSelect.value = settings.mode;
+    }
+
+    const absolute = document.getElementById("abs-epsilon") as HTMLInputElement;
+    if (absolute) absolute.value = settings.absoluteEpsilon.toString();
+
+    const relative = document.getElementById("rel-epsilon") as HTMLInputElement;
+    if (relative) relative.value = settings.relativeEpsilon.toString();
+
+    // Tolerances only apply to the floating point mode
+    const epsilons = document.getElementById("epsilon-controls");
+    if (epsilons) {
+      epsilons.style.display = settings.mode === "float" ? "flex" : "none";
+    }
+
+    const viewSelect = document.getElementById(
+      "diff-view"
+    ) as HTMLSelectElement;
+    if (viewSelect) viewSelect.value = view;
+  }
+
+  // Build Profile Selector
+  setBuildProfileOptions(
+    profiles: Array<{ id: string; name: string; summary: string }>,
+    selectedId: string | null
+  ): void {
+    const select = document.getElementById(
+      "profile-select"
+    ) as HTMLSelectElement;
+    if (!select) return;
+
+    select.innerHTML = "";
+    profiles.forEach((profile) => {
+      const option = document.createElement("option");
+      option.value = profile.id;
+      option.textContent = profile.name;
+      option.title = profile.summary;
+      select.appendChild(option);
+    });
+
+    const selected = profiles.find((p) => p.id === selectedId);
+    select.value = selected ? selected.id : "";
+    select.title = selected ? selected.summary : "";
+    select.disabled = profiles.length === 0;
+  }
+
+  disableRuntimeSelect(): void {
+    const select = document.getElementById(
+      "runtime-select"
+    ) as HTMLSelectElement;
+    if (select) {
+      select.innerHTML = "";
+      select.disabled = true;
+    }
+  }
+
   // C# Warning Modal
   showCSharpWarningModal(): void {
     const modal = document.getElementById("csharp-warning-modal");
@@ -46,8 +401,30 @@ export class ModalManager {
     }
   }
 
+  setInputText(text: string): void {
+    const inputTextarea = document.getElementById(
+      "code-input"
+    ) as HTMLTextAreaElement;
+    if (inputTextarea) inputTextarea.value = text;
+  }
+
+  // Expands the input box if it was collapsed and focuses it
+  showInputSection(): void {
+    const inputTextarea = document.getElementById(
+      "code-input"
+    ) as HTMLTextAreaElement;
+    if (!inputTextarea) return;
+
+    if (inputTextarea.classList.contains("collapsed")) {
+      this.toggleInputSection();
+    }
+    inputTextarea.scrollIntoView({ block: "nearest" });
+    inputTextarea.focus();
+  }
+
   // Output Display
   clearOutput(): void {
+    this.setOutputStatus("");
     const outputDisplay = document.getElementById("code-output");
     if (outputDisplay) {
       outputDisplay.innerHTML =
@@ -63,6 +440,122 @@ export class ModalManager {
     }
   }
 
+  // Shown instead of running when the program reads stdin but the input box
+  // is empty
+  displayInputPrompt(onOpenInput: () => void, onRunAnyway: () => void): void {
+    const outputDisplay = document.getElementById("code-output");
+    if (!outputDisplay) return;
+
+    outputDisplay.className = "output-display output-running";
+    outputDisplay.innerHTML = "";
+
+    const message = document.createElement("div");
+    message.textContent =
+      "This program reads from standard input, but the Input box is empty.";
+    outputDisplay.appendChild(message);
+
+    const actions = document.createElement("div");
+    actions.className = "output-actions";
+
+    const openButton = document.createElement("button");
+    openButton.className = "primary-btn small-btn";
+    openButton.textContent = "Open Input";
+    openButton.onclick = onOpenInput;
+
+    const runButton = document.createElement("button");
+    runButton.className = "secondary-btn small-btn";
+    runButton.textContent = "Run Anyway";
+    runButton.onclick = onRunAnyway;
+
+    actions.appendChild(openButton);
+    actions.appendChild(runButton);
+    outputDisplay.appendChild(actions);
+  }
+
+  // Shown next to the Output header, e.g. "Runtime Error · 1.24 s"
+  setOutputStatus(text: string): void {
+    const status = document.getElementById("output-status");
+    if (status) status.textContent = text;
+  }
+
+  // Attached Files
+  renderAttachments(
+    mainFileName: string,
+    candidates: Array<{ id: number; name: string; attached: boolean }>,
+    onToggle: (tabId: number, attached: boolean) => void
+  ): void {
+    const mainFile = document.getElementById("main-file-name");
+    const list = document.getElementById("attachment-list");
+    if (mainFile) mainFile.textContent = mainFileName;
+    if (!list) return;
+
+    list.innerHTML = "";
+
+    if (candidates.length === 0) {
+      const placeholder = document.createElement("div");
+      placeholder.className = "attachment-placeholder";
+      placeholder.textContent =
+        "Open other tabs (headers, helper classes) to attach them to this run";
+      list.appendChild(placeholder);
+      return;
+    }
+
+    candidates.forEach((candidate) => {
+      const label = document.createElement("label");
+      label.className = "attachment-item";
+
+      const checkbox = document.createElement("input");
+      checkbox.type = "checkbox";
+      checkbox.checked = candidate.attached;
+      checkbox.addEventListener("change", () =>
+        onToggle(candidate.id, checkbox.checked)
+      );
+
+      const name = document.createElement("span");
+      name.textContent = candidate.name;
+
+      label.appendChild(checkbox);
+      label.appendChild(name);
+      list.appendChild(label);
+    });
+  }
+
+  // Diagnostics List
+  renderDiagnostics(
+    diagnostics: CompilerDiagnostic[],
+    onSelect: (diagnostic: CompilerDiagnostic) => void
+  ): void {
+    const section = document.getElementById("diagnostics-section");
+    const list = document.getElementById("diagnostics-list");
+    const count = document.getElementById("diagnostics-count");
+    if (!section || !list) return;
+
+    list.innerHTML = "";
+    section.style.display = diagnostics.length > 0 ? "block" : "none";
+    if (count) count.textContent = diagnostics.length.toString();
+
+    diagnostics.forEach((diagnostic) => {
+      const item = document.createElement("button");
+      item.className = `diagnostic-item diagnostic-${diagnostic.severity}`;
+
+      const location = document.createElement("span");
+      location.className = "diagnostic-location";
+      location.textContent =
+        diagnostic.column !== null
+          ? `Ln ${diagnostic.line}, Col ${diagnostic.column}`
+          : `Ln ${diagnostic.line}`;
+
+      const message = document.createElement("span");
+      message.className = "diagnostic-message";
+      message.textContent = diagnostic.message;
+
+      item.appendChild(location);
+      item.appendChild(message);
+      item.onclick = () => onSelect(diagnostic);
+      list.appendChild(item);
+    });
+  }
+
   // Run Button State
   setRunButtonState(disabled: boolean, text: string): void {
     const runButton = document.getElementById(
@@ -72,5 +565,34 @@ export class ModalManager {
       runButton.disabled = disabled;
       runButton.textContent = text;
     }
+
+    const selectionButton = document.getElementById(
+      "btn-run-selection"
+    ) as HTMLButtonElement;
+    if (selectionButton) selectionButton.disabled = disabled;
+  }
+
+  setWrapSelection(wrap: boolean): void {
+    const checkbox = document.getElementById(
+      "wrap-selection"
+    ) as HTMLInputElement;
+    if (checkbox) checkbox.checked = wrap;
+  }
+
+  setCancelButtonState(enabled: boolean): void {
+    const cancelButton = document.getElementById(
+      "btn-cancel-run"
+    ) as HTMLButtonElement;
+    if (cancelButton) cancelButton.disabled = !enabled;
+  }
+
+  setRunAllButtonState(disabled: boolean, text: string): void {
+    const runAllButton = document.getElementById(
+      "btn-run-all"
+    ) as HTMLButtonElement;
+    if (runAllButton) {
+      runAllButton.disabled = disabled;
+      runAllButton.textContent = text;
+    }
   }
 }
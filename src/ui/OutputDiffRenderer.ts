@@ -0,0 +1,198 @@
+// src/ui/OutputDiffRenderer.ts
+
+import type { ComparisonResult, DiffPosition, DiffView } from "../types";
+import { diffLines } from "../utils/diff";
+
+export class OutputDiffRenderer {
+  // Renders expected vs. actual output into the output area, highlighting
+  // the first differing line and token
+  render(
+    title: string,
+    expected: string,
+    actual: string,
+    comparison: ComparisonResult,
+    view: DiffView
+  ): void {
+    const output = document.getElementById("code-output");
+    if (!output) return;
+
+    output.className = "output-display output-diff";
+    output.innerHTML = "";
+
+    const header = document.createElement("div");
+    header.className = "output-diff-title";
+    header.textContent = `${title} · ${this.describeMismatch(comparison)}`;
+    output.appendChild(header);
+
+    const expectedLines = this.splitLines(expected);
+    const actualLines = this.splitLines(actual);
+
+    output.appendChild(
+      view === "inline"
+        ? this.createInline(expectedLines, actualLines, comparison)
+        : this.createSideBySide(expectedLines, actualLines, comparison)
+    );
+
+    output
+      .querySelector(".diff-mismatch, .diff-token")
+      ?.scrollIntoView({ block: "nearest" });
+  }
+
+  isShown(): boolean {
+    const output = document.getElementById("code-output");
+    return output?.classList.contains("output-diff") ?? false;
+  }
+
+  private createSideBySide(
+    expected: string[],
+    actual: string[],
+    comparison: ComparisonResult
+  ): HTMLElement {
+    const container = document.createElement("div");
+    container.className = "diff-side-by-side";
+    container.appendChild(
+      this.createColumn("Expected", expected, comparison.expected)
+    );
+    container.appendChild(
+      this.createColumn("Actual", actual, comparison.actual)
+    );
+    return container;
+  }
+
+  private createColumn(
+    labelText: string,
+    lines: string[],
+    position: DiffPosition | null
+  ): HTMLElement {
+    const column = document.createElement("div");
+    column.className = "diff-column";
+
+    const label = document.createElement("span");
+    label.className = "testcase-label";
+    label.textContent = labelText;
+    column.appendChild(label);
+
+    lines.forEach((text, index) => {
+      const mismatch = position?.line === index;
+      column.appendChild(
+        this.createLine(
+          index + 1,
+          text,
+          mismatch ? position.token : null,
+          mismatch ? "diff-mismatch" : ""
+        )
+      );
+    });
+
+    // This side ended while the other one still had output
+    if (!position || position.line >= lines.length) {
+      const end = document.createElement("div");
+      end.className = "diff-line diff-end diff-mismatch";
+      end.textContent = "(end of output)";
+      column.appendChild(end);
+    }
+
+    return column;
+  }
+
+  private createInline(
+    expected: string[],
+    actual: string[],
+    comparison: ComparisonResult
+  ): HTMLElement {
+    const container = document.createElement("div");
+    container.className = "diff-inline";
+
+    let expectedLine = 0;
+    let actualLine = 0;
+    diffLines(expected.join("\n"), actual.join("\n")).forEach((line) => {
+      if (line.type === "same") {
+        container.appendChild(
+          this.createLine(actualLine + 1, line.text, null, "", " ")
+        );
+        expectedLine++;
+        actualLine++;
+      } else if (line.type === "removed") {
+        const position = comparison.expected;
+        const token = position?.line === expectedLine ? position.token : null;
+        container.appendChild(
+          this.createLine(
+            expectedLine + 1,
+            line.text,
+            token,
+            "diff-removed",
+            "-"
+          )
+        );
+        expectedLine++;
+      } else {
+        const position = comparison.actual;
+        const token = position?.line === actualLine ? position.token : null;
+        container.appendChild(
+          this.createLine(actualLine + 1, line.text, token, "diff-added", "+")
+        );
+        actualLine++;
+      }
+    });
+
+    return container;
+  }
+
+  private createLine(
+    lineNumber: number,
+    text: string,
+    token: number | null,
+    className: string,
+    marker?: string
+  ): HTMLElement {
+    const row = document.createElement("div");
+    row.className = `diff-line ${className}`.trim();
+
+    const gutter = document.createElement("span");
+    gutter.className = "diff-gutter";
+    gutter.textContent = marker ? `${marker} ${lineNumber}` : `${lineNumber}`;
+    row.appendChild(gutter);
+
+    const range = token !== null ? this.findToken(text, token) : null;
+    if (!range) {
+      row.appendChild(document.createTextNode(text));
+      return row;
+    }
+
+    const highlight = document.createElement("span");
+    highlight.className = "diff-token";
+    highlight.textContent = text.slice(range[0], range[1]);
+    row.appendChild(document.createTextNode(text.slice(0, range[0])));
+    row.appendChild(highlight);
+    row.appendChild(document.createTextNode(text.slice(range[1])));
+    return row;
+  }
+
+  // Character range of the n-th whitespace-separated token
+  private findToken(text: string, index: number): [number, number] | null {
+    const match = [...text.matchAll(/\S+/g)][index];
+    if (!match || match.index === undefined) return null;
+    return [match.index, match.index + match[0].length];
+  }
+
+  private describeMismatch(comparison: ComparisonResult): string {
+    const position = comparison.expected || comparison.actual;
+    if (!position) return "outputs match";
+
+    if (!comparison.actual) {
+      return `output ends early at line ${position.line + 1}`;
+    }
+    if (!comparison.expected) {
+      return `unexpected output at line ${position.line + 1}`;
+    }
+
+    const token =
+      position.token !== null ? `, token ${position.token + 1}` : "";
+    return `first difference at line ${position.line + 1}${token}`;
+  }
+
+  private splitLines(text: string): string[] {
+    const normalized = text.replace(/\r\n?/g, "\n").replace(/\n$/, "");
+    return normalized ? normalized.split("\n") : [];
+  }
+}
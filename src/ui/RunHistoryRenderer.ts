@@ -0,0 +1,203 @@
+// src/ui/RunHistoryRenderer.ts
+
+import type { DiffLine, RunHistoryEntry } from "../types";
+import { getLanguageName } from "../languages";
+import { formatElapsed } from "../utils/helpers";
+
+export class RunHistoryRenderer {
+  private onRerun: (entryId: number) => void;
+  private onCompare: (entryId: number) => void;
+
+  constructor(
+    onRerun: (entryId: number) => void,
+    onCompare: (entryId: number) => void
+  ) {
+    this.onRerun = onRerun;
+    this.onCompare = onCompare;
+  }
+
+  // `currentHash` marks entries that ran a different version of the code.
+  // `saveError` is shown above the list while the history can't be stored.
+  render(
+    entries: RunHistoryEntry[],
+    currentHash: string,
+    saveError: string | null
+  ): void {
+    const list = document.getElementById("history-list");
+    const summary = document.getElementById("history-summary");
+    if (summary) {
+      summary.textContent = entries.length ? `(${entries.length})` : "";
+    }
+    if (!list) return;
+
+    list.innerHTML = "";
+    this.clearDiff();
+
+    if (saveError) {
+      const warning = document.createElement("div");
+      warning.className = "history-warning";
+      warning.textContent = `Run history could not be saved: ${saveError}`;
+      list.appendChild(warning);
+    }
+
+    if (entries.length === 0) {
+      const placeholder = document.createElement("div");
+      placeholder.className = "testcase-placeholder";
+      placeholder.textContent = "No runs recorded for this file yet.";
+      list.appendChild(placeholder);
+      return;
+    }
+
+    entries.forEach((entry, index) => {
+      const sameCode = entry.codeHash === currentHash;
+      list.appendChild(this.createEntryElement(entry, index === 0, sameCode));
+    });
+  }
+
+  renderDiff(
+    entry: RunHistoryEntry,
+    latest: RunHistoryEntry,
+    lines: DiffLine[]
+  ): void {
+    const section = document.getElementById("history-diff-section");
+    const title = document.getElementById("history-diff-title");
+    const output = document.getElementById("history-diff");
+    if (!section || !output) return;
+
+    section.style.display = "flex";
+    if (title) {
+      title.textContent = `${this.formatTime(entry.timestamp)} → ${this.formatTime(latest.timestamp)}`;
+    }
+
+    output.innerHTML = "";
+    if (lines.every((line) => line.type === "same")) {
+      output.className = "output-display output-success";
+      output.textContent = "✓ Outputs are identical";
+      return;
+    }
+
+    output.className = "output-display history-diff";
+    lines.forEach((line) => {
+      const row = document.createElement("div");
+      row.className = `diff-line diff-${line.type}`;
+      const marker =
+        line.type === "added" ? "+" : line.type === "removed" ? "-" : " ";
+      row.textContent = `${marker} ${line.text}`;
+      output.appendChild(row);
+    });
+  }
+
+  clearDiff(): void {
+    const section = document.getElementById("history-diff-section");
+    if (section) section.style.display = "none";
+  }
+
+  private createEntryElement(
+    entry: RunHistoryEntry,
+    isLatest: boolean,
+    sameCode: boolean
+  ): HTMLElement {
+    const item = document.createElement("div");
+    item.className = "testcase-item";
+    item.setAttribute("data-entry-id", entry.id.toString());
+
+    // Header
+    const header = document.createElement("div");
+    header.className = "testcase-header";
+
+    const title = document.createElement("span");
+    title.className = "testcase-title";
+    title.textContent = this.formatTime(entry.timestamp);
+    header.appendChild(title);
+
+    const [statusText, statusClass] = this.getStatus(entry);
+    const badge = document.createElement("span");
+    badge.className = `verdict-badge ${statusClass}`;
+    badge.textContent = statusText;
+    header.appendChild(badge);
+
+    const details = document.createElement("span");
+    details.className = "testcase-elapsed";
+    details.textContent = [
+      `${getLanguageName(entry.language)} ${entry.version}`,
+      formatElapsed(entry.elapsedMs),
+    ].join(" · ");
+    header.appendChild(details);
+
+    const hash = document.createElement("span");
+    hash.className = sameCode ? "history-hash" : "history-hash changed";
+    hash.title = sameCode
+      ? `Code hash ${entry.codeHash}`
+      : `Code hash ${entry.codeHash} (the code has changed since this run)`;
+    hash.textContent = sameCode
+      ? entry.codeHash.slice(0, 8)
+      : `${entry.codeHash.slice(0, 8)} · changed`;
+    header.appendChild(hash);
+
+    const actions = document.createElement("div");
+    actions.className = "history-actions";
+
+    const rerunBtn = document.createElement("button");
+    rerunBtn.className = "secondary-btn small-btn";
+    rerunBtn.textContent = "Re-run";
+    rerunBtn.title = "Run the current code with this input";
+    rerunBtn.onclick = () => this.onRerun(entry.id);
+    actions.appendChild(rerunBtn);
+
+    const diffBtn = document.createElement("button");
+    diffBtn.className = "secondary-btn small-btn";
+    diffBtn.textContent = "Diff";
+    diffBtn.title = "Compare this output with the latest run";
+    diffBtn.disabled = isLatest;
+    diffBtn.onclick = () => this.onCompare(entry.id);
+    actions.appendChild(diffBtn);
+
+    header.appendChild(actions);
+    item.appendChild(header);
+
+    // Streams
+    const body = document.createElement("div");
+    body.className = "testcase-body";
+    body.appendChild(this.createStream("Input", entry.stdin));
+    body.appendChild(this.createStream("Output", entry.stdout));
+    item.appendChild(body);
+
+    if (entry.stderr) {
+      const stderr = this.createStream("Errors", entry.stderr);
+      stderr.classList.add("testcase-actual");
+      item.appendChild(stderr);
+    }
+
+    return item;
+  }
+
+  private createStream(labelText: string, text: string): HTMLElement {
+    const field = document.createElement("div");
+    field.className = "testcase-field";
+
+    const label = document.createElement("span");
+    label.className = "testcase-label";
+    label.textContent = labelText;
+
+    const pre = document.createElement("pre");
+    pre.className = "history-stream";
+    pre.textContent = text || "(empty)";
+
+    field.appendChild(label);
+    field.appendChild(pre);
+    return field;
+  }
+
+  private getStatus(entry: RunHistoryEntry): [string, string] {
+    if (entry.signal === "SIGKILL") return ["Timeout", "verdict-tle"];
+    if (entry.signal) return [entry.signal, "verdict-re"];
+    if (entry.exitCode !== 0 && entry.exitCode !== null) {
+      return [`Exit ${entry.exitCode}`, "verdict-re"];
+    }
+    return ["Exit 0", "verdict-ac"];
+  }
+
+  private formatTime(timestamp: number): string {
+    return new Date(timestamp).toLocaleString();
+  }
+}
@@ -0,0 +1,330 @@
+// src/ui/SearchPanel.ts
+
+import {
+  SearchQuery,
+  closeSearchPanel,
+  findNext,
+  findPrevious,
+  getSearchQuery,
+  replaceAll,
+  replaceNext,
+  setSearchQuery,
+} from "@codemirror/search";
+import {
+  EditorView,
+  Panel,
+  ViewUpdate,
+  runScopeHandlers,
+} from "@codemirror/view";
+import { SEARCH_CONFIG } from "../constants";
+import type { TabSearchMatch } from "../types";
+import { findMatches } from "../utils/searchMatches";
+
+export interface SearchPanelCallbacks {
+  findInTabs: (query: SearchQuery) => TabSearchMatch[];
+  onSelectMatch: (match: TabSearchMatch, query: SearchQuery) => void;
+  // Every tab's state gets its own panel, so the mode is kept by the owner
+  // of the editor and survives tab switches
+  isAllTabs: () => boolean;
+  onAllTabsChange: (allTabs: boolean) => void;
+}
+
+// Replaces CodeMirror's default search panel. Colors are inherited from the
+// editor theme's panel styles.
+export class SearchPanel implements Panel {
+  public dom: HTMLElement;
+  public top = true;
+
+  private view: EditorView;
+  private callbacks: SearchPanelCallbacks;
+  private query: SearchQuery;
+  private searchInput: HTMLInputElement;
+  private replaceInput: HTMLInputElement;
+  private caseToggle: HTMLButtonElement;
+  private wordToggle: HTMLButtonElement;
+  private regexpToggle: HTMLButtonElement;
+  private allTabsToggle: HTMLButtonElement;
+  private counter: HTMLElement;
+  private results: HTMLElement;
+
+  constructor(view: EditorView, callbacks: SearchPanelCallbacks) {
+    this.view = view;
+    this.callbacks = callbacks;
+    this.query = getSearchQuery(view.state);
+
+    this.searchInput = this.createInput("Find");
+    // openSearchPanel() focuses the field marked as the main one
+    this.searchInput.setAttribute("main-field", "true");
+    this.replaceInput = this.createInput("Replace");
+    this.caseToggle = this.createToggle("Aa", "Match Case", () =>
+      this.commit()
+    );
+    this.wordToggle = this.createToggle("ab", "Match Whole Word", () =>
+      this.commit()
+    );
+    this.wordToggle.classList.add("find-toggle-word");
+    this.regexpToggle = this.createToggle(".*", "Use Regular Expression", () =>
+      this.commit()
+    );
+    this.allTabsToggle = this.createToggle(
+      "All Tabs",
+      "Find in All Open Tabs",
+      (active) => {
+        this.callbacks.onAllTabsChange(active);
+        this.renderResults();
+      }
+    );
+    this.counter = document.createElement("span");
+    this.counter.className = "find-counter";
+    this.results = document.createElement("div");
+    this.results.className = "find-results";
+
+    this.dom = this.createPanel();
+    this.setQuery(this.query);
+    this.setToggle(this.allTabsToggle, this.callbacks.isAllTabs());
+    this.updateCounter();
+    this.renderResults();
+  }
+
+  mount(): void {
+    this.searchInput.select();
+  }
+
+  update(update: ViewUpdate): void {
+    let queryChanged = false;
+    update.transactions.forEach((transaction) => {
+      transaction.effects.forEach((effect) => {
+        if (!effect.is(setSearchQuery)) return;
+        queryChanged = true;
+        if (!effect.value.eq(this.query)) this.setQuery(effect.value);
+      });
+    });
+
+    if (queryChanged || update.docChanged || update.selectionSet) {
+      this.updateCounter();
+    }
+    if (queryChanged || update.docChanged) {
+      this.renderResults();
+    }
+  }
+
+  private createPanel(): HTMLElement {
+    const findRow = document.createElement("div");
+    findRow.className = "find-row";
+    findRow.append(
+      this.searchInput,
+      this.caseToggle,
+      this.wordToggle,
+      this.regexpToggle,
+      this.counter,
+      this.createButton("↑", "Previous Match (Shift+Enter)", () =>
+        findPrevious(this.view)
+      ),
+      this.createButton("↓", "Next Match (Enter)", () => findNext(this.view)),
+      this.allTabsToggle,
+      this.createButton("×", "Close (Escape)", () =>
+        closeSearchPanel(this.view)
+      )
+    );
+
+    const replaceRow = document.createElement("div");
+    replaceRow.className = "find-row";
+    replaceRow.append(
+      this.replaceInput,
+      this.createButton("Replace", "Replace (Enter)", () =>
+        replaceNext(this.view)
+      ),
+      this.createButton("Replace All", "Replace All", () =>
+        replaceAll(this.view)
+      )
+    );
+
+    const panel = document.createElement("div");
+    panel.className = "find-panel";
+    panel.append(findRow, replaceRow, this.results);
+    panel.addEventListener("keydown", (e) => this.handleKeydown(e));
+    return panel;
+  }
+
+  private createInput(placeholder: string): HTMLInputElement {
+    const input = document.createElement("input");
+    input.type = "text";
+    input.className = "find-input";
+    input.placeholder = placeholder;
+    input.setAttribute("aria-label", placeholder);
+    input.spellcheck = false;
+    input.addEventListener("input", () => this.commit());
+    return input;
+  }
+
+  private createButton(
+    text: string,
+    title: string,
+    onClick: () => void
+  ): HTMLButtonElement {
+    const button = document.createElement("button");
+    button.type = "button";
+    button.className = "find-btn";
+    button.textContent = text;
+    button.title = title;
+    button.addEventListener("click", onClick);
+    return button;
+  }
+
+  private createToggle(
+    text: string,
+    title: string,
+    onToggle: (active: boolean) => void
+  ): HTMLButtonElement {
+    const toggle = this.createButton(text, title, () => {
+      this.setToggle(toggle, !this.isToggled(toggle));
+      onToggle(this.isToggled(toggle));
+    });
+    toggle.classList.add("find-toggle");
+    return toggle;
+  }
+
+  private setToggle(toggle: HTMLButtonElement, active: boolean): void {
+    toggle.classList.toggle("active", active);
+    toggle.setAttribute("aria-pressed", String(active));
+  }
+
+  private isToggled(toggle: HTMLButtonElement): boolean {
+    return toggle.classList.contains("active");
+  }
+
+  private commit(): void {
+    const query = new SearchQuery({
+      search: this.searchInput.value,
+      replace: this.replaceInput.value,
+      caseSensitive: this.isToggled(this.caseToggle),
+      wholeWord: this.isToggled(this.wordToggle),
+      regexp: this.isToggled(this.regexpToggle),
+    });
+    if (query.eq(this.query)) return;
+
+    this.query = query;
+    this.view.dispatch({ effects: setSearchQuery.of(query) });
+  }
+
+  private setQuery(query: SearchQuery): void {
+    this.query = query;
+    this.searchInput.value = query.search;
+    this.replaceInput.value = query.replace;
+    this.setToggle(this.caseToggle, query.caseSensitive);
+    this.setToggle(this.wordToggle, query.wholeWord);
+    this.setToggle(this.regexpToggle, query.regexp);
+  }
+
+  private handleKeydown(e: KeyboardEvent): void {
+    // Escape, F3 and the other search keys from searchKeymap
+    if (runScopeHandlers(this.view, e, "search-panel")) {
+      e.preventDefault();
+      return;
+    }
+    if (e.key !== "Enter") return;
+
+    if (e.target === this.searchInput) {
+      e.preventDefault();
+      if (e.shiftKey) {
+        findPrevious(this.view);
+      } else {
+        findNext(this.view);
+      }
+    } else if (e.target === this.replaceInput) {
+      e.preventDefault();
+      replaceNext(this.view);
+    }
+  }
+
+  // "3 of 12" when a match is selected, "? of 12" otherwise
+  private updateCounter(): void {
+    this.counter.classList.remove("no-results");
+
+    if (!this.query.search) {
+      this.counter.textContent = "";
+      return;
+    }
+    if (!this.query.valid) {
+      this.counter.textContent = "Invalid pattern";
+      this.counter.classList.add("no-results");
+      return;
+    }
+
+    const { maxCount } = SEARCH_CONFIG;
+    const matches = findMatches(this.view.state.doc, this.query, maxCount);
+    if (matches.length === 0) {
+      this.counter.textContent = "No results";
+      this.counter.classList.add("no-results");
+      return;
+    }
+
+    const { from, to } = this.view.state.selection.main;
+    const index = matches.findIndex(
+      (match) => match.from === from && match.to === to
+    );
+    const total =
+      matches.length >= maxCount ? `${maxCount}+` : `${matches.length}`;
+    this.counter.textContent = `${index >= 0 ? index + 1 : "?"} of ${total}`;
+  }
+
+  // Matches of every open tab, grouped by tab
+  private renderResults(): void {
+    const allTabs = this.callbacks.isAllTabs();
+    this.results.innerHTML = "";
+    this.results.classList.toggle("show", allTabs);
+    if (!allTabs || !this.query.valid) return;
+
+    const matches = this.callbacks.findInTabs(this.query);
+    if (matches.length === 0) {
+      const empty = document.createElement("div");
+      empty.className = "find-results-empty";
+      empty.textContent = "No results in open tabs";
+      this.results.appendChild(empty);
+      return;
+    }
+
+    let currentTabId: number | null = null;
+    matches.forEach((match) => {
+      if (match.tabId !== currentTabId) {
+        currentTabId = match.tabId;
+        const count = matches.filter((m) => m.tabId === match.tabId).length;
+        this.results.appendChild(this.createTabHeader(match.tabName, count));
+      }
+      this.results.appendChild(this.createResultItem(match));
+    });
+
+    if (matches.length >= SEARCH_CONFIG.maxTabResults) {
+      const more = document.createElement("div");
+      more.className = "find-results-empty";
+      more.textContent = `Showing the first ${SEARCH_CONFIG.maxTabResults} results`;
+      this.results.appendChild(more);
+    }
+  }
+
+  private createTabHeader(tabName: string, count: number): HTMLElement {
+    const header = document.createElement("div");
+    header.className = "find-results-tab";
+    header.textContent = `${tabName} (${count})`;
+    return header;
+  }
+
+  private createResultItem(match: TabSearchMatch): HTMLElement {
+    const item = document.createElement("div");
+    item.className = "find-result";
+
+    const line = document.createElement("span");
+    line.className = "find-result-line";
+    line.textContent = String(match.line);
+
+    const text = document.createElement("span");
+    text.className = "find-result-text";
+    text.textContent = match.lineText;
+
+    item.append(line, text);
+    item.addEventListener("click", () =>
+      this.callbacks.onSelectMatch(match, this.query)
+    );
+    return item;
+  }
+}
@@ -1,28 +1,77 @@
 // src/ui/SettingsModalManager.ts
 
-import { EditorState } from "@codemirror/state";
+import { EditorState, Extension } from "@codemirror/state";
 import { EditorView, lineNumbers } from "@codemirror/view";
-import { cpp } from "@codemirror/lang-cpp";
 import { history } from "@codemirror/commands";
 import { SettingsManager } from "../managers/SettingsManager";
+import { CommandRegistry } from "../managers/CommandRegistry";
+import { PistonService } from "../services/PistonService";
+import type {
+  BuildProfile,
+  CodeSnippet,
+  Command,
+  CompanionSettings,
+  ExecutionBackendId,
+  ExecutionTimeouts,
+  KeymapMode,
+  PistonSettings,
+} from "../types";
+import {
+  DEFAULT_BUILD_PROFILE,
+  DEFAULT_BUILD_PROFILES,
+  DEFAULT_KEYBINDINGS,
+  EXECUTION_BACKENDS,
+  KEYMAP_MODES,
+  LANGUAGE_STANDARDS,
+} from "../constants";
+import {
+  LANGUAGES,
+  findLanguageById,
+  findLanguageByTemplate,
+  getLanguageName,
+  getLocalRunnerLanguages,
+  getRunnableLanguages,
+} from "../languages";
+import { formatArgs, parseArgs } from "../utils/buildArgs";
+import { getKeybinding, isTypingKeybinding } from "../utils/keybindings";
 import { AVAILABLE_THEMES, getThemeExtension } from "../utils/themeUtils";
 
+type SettingsTab = "templates" | "appearance" | "execution" | "keybindings";
+
+type BindableCommand = Pick<Command, "id" | "category" | "title">;
+
 export class SettingsModalManager {
   private settingsManager: SettingsManager;
+  private pistonService: PistonService;
+  private commands: CommandRegistry;
   private settingsEditor: EditorView | null = null;
   private currentEditingKey: string | null = null;
   private pendingChanges: Map<string, string> = new Map();
+  // Build profiles being edited, per language, saved with "Save"
+  private pendingProfiles: Map<string, BuildProfile[]> = new Map();
+  private profileLanguage: string = "cpp";
+  private editingProfileId: string | null = null;
+  // User snippets being edited, saved with "Save"
+  private pendingSnippets: CodeSnippet[] = [];
+  private editingSnippetId: string | null = null;
+  // Keybindings being edited by command id, "" for unbound, saved with "Save"
+  private pendingKeybindings: Map<string, string> = new Map();
+  private recordingCommandId: string | null = null;
   private onTemplatesChanged: () => void;
   private onThemeChanged: (theme: string) => void;
   // @ts-ignore
-  private _currentActiveTab: "templates" | "appearance" = "templates";
+  private _currentActiveTab: SettingsTab = "templates";
 
   constructor(
     settingsManager: SettingsManager,
     onTemplatesChanged: () => void,
-    onThemeChanged: (theme: string) => void
+    onThemeChanged: (theme: string) => void,
+    pistonService: PistonService,
+    commands: CommandRegistry
   ) {
     this.settingsManager = settingsManager;
+    this.pistonService = pistonService;
+    this.commands = commands;
     this.onTemplatesChanged = onTemplatesChanged;
     this.onThemeChanged = onThemeChanged;
 
@@ -74,6 +123,93 @@ export class SettingsModalManager {
         this.switchTab("appearance");
       });
 
+    document
+      .getElementById("settings-tab-execution")
+      ?.addEventListener("click", () => {
+        this.switchTab("execution");
+      });
+
+    document
+      .getElementById("settings-tab-keybindings")
+      ?.addEventListener("click", () => {
+        this.switchTab("keybindings");
+      });
+
+    // Keybinding controls
+    document
+      .getElementById("reset-keybindings-btn")
+      ?.addEventListener("click", () => {
+        this.resetAllKeybindings();
+      });
+
+    // Execution controls
+    document
+      .getElementById("test-piston-btn")
+      ?.addEventListener("click", () => {
+        this.testPistonConnection();
+      });
+
+    // Build profile controls
+    document
+      .getElementById("profile-language")
+      ?.addEventListener("change", (e) => {
+        this.profileLanguage = (e.target as HTMLSelectElement).value;
+        this.editingProfileId = null;
+        this.renderProfileEditor();
+      });
+
+    document
+      .getElementById("profile-edit-select")
+      ?.addEventListener("change", (e) => {
+        this.editingProfileId = (e.target as HTMLSelectElement).value;
+        this.renderProfileEditor();
+      });
+
+    document
+      .getElementById("add-profile-btn")
+      ?.addEventListener("click", () => {
+        this.addProfile();
+      });
+
+    document
+      .getElementById("delete-profile-btn")
+      ?.addEventListener("click", () => {
+        this.deleteCurrentProfile();
+      });
+
+    document
+      .getElementById("reset-profiles-btn")
+      ?.addEventListener("click", () => {
+        this.resetProfiles();
+      });
+
+    (
+      [
+        "profile-name",
+        "profile-standard",
+        "profile-compile-args",
+        "profile-run-args",
+      ] as const
+    ).forEach((id) => {
+      const eventName = id === "profile-standard" ? "change" : "input";
+      document.getElementById(id)?.addEventListener(eventName, () => {
+        this.updateCurrentProfile();
+      });
+    });
+
+    // Built-in templates imply their file type
+    document
+      .getElementById("companion-template")
+      ?.addEventListener("change", (e) => {
+        const extension = findLanguageByTemplate(
+          (e.target as HTMLSelectElement).value
+        )?.extensions[0];
+        const extensionSelect = document.getElementById(
+          "companion-extension"
+        ) as HTMLSelectElement;
+        if (extension && extensionSelect) extensionSelect.value = extension;
+      });
+
     // Template controls
     document
       .getElementById("add-template-btn")
@@ -90,7 +226,38 @@ export class SettingsModalManager {
     document
       .getElementById("delete-template-btn")
       ?.addEventListener("click", () => {
-        this.deleteCurrentTemplate();
+        if (this.editingSnippetId) {
+          this.deleteCurrentSnippet();
+        } else {
+          this.deleteCurrentTemplate();
+        }
+      });
+
+    // Snippet controls
+    document
+      .getElementById("add-snippet-btn")
+      ?.addEventListener("click", () => {
+        this.addSnippet();
+      });
+
+    document
+      .getElementById("snippet-label-input")
+      ?.addEventListener("input", (e) => {
+        const snippet = this.getEditingSnippet();
+        if (!snippet) return;
+        snippet.label = (e.target as HTMLInputElement).value.trim();
+        this.renderSnippetList();
+      });
+
+    document
+      .getElementById("snippet-language-select")
+      ?.addEventListener("change", (e) => {
+        const snippet = this.getEditingSnippet();
+        if (!snippet) return;
+        this.storeEditorContent();
+        snippet.language = (e.target as HTMLSelectElement).value;
+        this.renderSnippetList();
+        this.loadSnippetIntoEditor(snippet);
       });
 
     // Add template modal controls
@@ -116,11 +283,28 @@ export class SettingsModalManager {
   showSettingsModal(): void {
     this.pendingChanges.clear();
     this.currentEditingKey = null;
+    this.pendingSnippets = this.settingsManager.getSnippets();
+    this.editingSnippetId = null;
     this._currentActiveTab = "templates";
     this.switchTab("templates");
     this.renderTemplateList();
+    this.renderSnippetList();
     this.setupThemeChangeHandler();
     this.loadThemeSettings(); // Load theme settings AFTER setting up handler
+    this.loadExecutionSettings();
+    this.loadKeybindings();
+
+    const autocompleteToggle = document.getElementById(
+      "autocomplete-toggle"
+    ) as HTMLInputElement;
+    if (autocompleteToggle) {
+      autocompleteToggle.checked = this.settingsManager.getAutocomplete();
+    }
+
+    const authorInput = document.getElementById(
+      "template-author"
+    ) as HTMLInputElement;
+    if (authorInput) authorInput.value = this.settingsManager.getAuthor();
 
     const modal = document.getElementById("settings-modal");
     modal?.classList.add("show");
@@ -172,28 +356,698 @@ export class SettingsModalManager {
     }
   }
 
-  private switchTab(tab: "templates" | "appearance"): void {
+  private switchTab(tab: SettingsTab): void {
     this._currentActiveTab = tab;
 
-    // Update tab buttons
-    const templatesTab = document.getElementById("settings-tab-templates");
-    const appearanceTab = document.getElementById("settings-tab-appearance");
-    const templatesPanel = document.getElementById("templates-panel");
-    const appearancePanel = document.getElementById("appearance-panel");
-
-    if (tab === "templates") {
-      templatesTab?.classList.add("active");
-      appearanceTab?.classList.remove("active");
-      if (templatesPanel) templatesPanel.style.display = "grid";
-      if (appearancePanel) appearancePanel.style.display = "none";
+    // Panel display mode for each tab
+    const panels: Record<SettingsTab, string> = {
+      templates: "grid",
+      appearance: "block",
+      execution: "block",
+      keybindings: "block",
+    };
+
+    (Object.keys(panels) as SettingsTab[]).forEach((key) => {
+      const tabButton = document.getElementById(`settings-tab-${key}`);
+      const panel = document.getElementById(`${key}-panel`);
+
+      tabButton?.classList.toggle("active", key === tab);
+      if (panel) panel.style.display = key === tab ? panels[key] : "none";
+    });
+
+    // Templates added since opening the settings can be bound as well
+    if (tab === "keybindings") this.renderKeybindingList();
+  }
+
+  private loadKeybindings(): void {
+    const keymapSelect = document.getElementById(
+      "keymap-mode-select"
+    ) as HTMLSelectElement;
+    if (keymapSelect) {
+      keymapSelect.innerHTML = "";
+      (Object.keys(KEYMAP_MODES) as KeymapMode[]).forEach((mode) => {
+        const option = document.createElement("option");
+        option.value = mode;
+        option.textContent = KEYMAP_MODES[mode];
+        keymapSelect.appendChild(option);
+      });
+      keymapSelect.value = this.settingsManager.getKeymapMode();
+    }
+
+    this.pendingKeybindings.clear();
+    this.recordingCommandId = null;
+    this.setKeybindingMessage("", "");
+    this.renderKeybindingList();
+  }
+
+  // Registered commands, with templates read from the settings so ones
+  // added before saving are listed too
+  private getBindableCommands(): BindableCommand[] {
+    const templates = this.settingsManager
+      .getAllTemplates()
+      .map((template) => ({
+        id: `template.${template.key}`,
+        category: "Template",
+        title: template.name,
+      }));
+    return [
+      ...this.commands
+        .getAll()
+        .filter((command) => !command.id.startsWith("template.")),
+      ...templates,
+    ];
+  }
+
+  private getPendingKeybinding(commandId: string): string {
+    return (
+      this.pendingKeybindings.get(commandId) ??
+      this.settingsManager.getKeybinding(commandId) ??
+      ""
+    );
+  }
+
+  private renderKeybindingList(): void {
+    const list = document.getElementById("keybinding-list");
+    if (!list) return;
+
+    list.innerHTML = "";
+
+    const commands = this.getBindableCommands();
+    const counts = new Map<string, number>();
+    commands.forEach(({ id }) => {
+      const keybinding = this.getPendingKeybinding(id);
+      if (keybinding) counts.set(keybinding, (counts.get(keybinding) ?? 0) + 1);
+    });
+
+    commands.forEach((command) => {
+      const keybinding = this.getPendingKeybinding(command.id);
+
+      const row = document.createElement("div");
+      row.className = "keybinding-row";
+      // Only possible with bindings saved by hand, as assigning one moves it
+      if ((counts.get(keybinding) ?? 0) > 1) {
+        row.classList.add("conflict");
+        row.title = `${keybinding} is bound to more than one command`;
+      }
+
+      const title = document.createElement("span");
+      title.className = "keybinding-title";
+      const category = document.createElement("span");
+      category.className = "keybinding-category";
+      category.textContent = `${command.category}: `;
+      title.append(category, command.title);
+
+      const keyButton = document.createElement("button");
+      keyButton.className = "keybinding-key";
+      this.setKeyButtonText(keyButton, keybinding);
+      keyButton.addEventListener("click", () =>
+        this.startRecording(command.id, keyButton)
+      );
+      keyButton.addEventListener("keydown", (e) =>
+        this.recordKeybinding(e, command.id)
+      );
+      keyButton.addEventListener("blur", () => {
+        if (this.recordingCommandId !== command.id) return;
+        this.recordingCommandId = null;
+        this.setKeyButtonText(keyButton, keybinding);
+      });
+
+      const clearButton = document.createElement("button");
+      clearButton.className = "icon-btn";
+      clearButton.textContent = "×";
+      clearButton.title = "Remove Keybinding";
+      clearButton.disabled = !keybinding;
+      clearButton.addEventListener("click", () =>
+        this.assignKeybinding(command.id, "")
+      );
+
+      const defaultKeybinding = DEFAULT_KEYBINDINGS[command.id] ?? "";
+      const resetButton = document.createElement("button");
+      resetButton.className = "icon-btn";
+      resetButton.textContent = "↺";
+      resetButton.title = defaultKeybinding
+        ? `Reset to ${defaultKeybinding}`
+        : "Reset to Unbound";
+      resetButton.disabled = keybinding === defaultKeybinding;
+      resetButton.addEventListener("click", () =>
+        this.assignKeybinding(command.id, defaultKeybinding)
+      );
+
+      row.append(title, keyButton, clearButton, resetButton);
+      list.appendChild(row);
+    });
+  }
+
+  private setKeyButtonText(
+    button: HTMLElement,
+    keybinding: string,
+    recording: boolean = false
+  ): void {
+    button.textContent = recording
+      ? "Press a key combination..."
+      : keybinding || "Unbound";
+    button.classList.toggle("recording", recording);
+    button.classList.toggle("unbound", !recording && !keybinding);
+  }
+
+  private startRecording(commandId: string, button: HTMLElement): void {
+    this.recordingCommandId = commandId;
+    this.setKeybindingMessage(
+      "Press the new keybinding, or Escape to cancel",
+      ""
+    );
+    this.setKeyButtonText(button, "", true);
+  }
+
+  // Keys pressed while recording never reach the app's own keybindings
+  private recordKeybinding(e: KeyboardEvent, commandId: string): void {
+    if (this.recordingCommandId !== commandId) return;
+    e.preventDefault();
+    e.stopPropagation();
+
+    if (e.key === "Escape") {
+      this.recordingCommandId = null;
+      this.setKeybindingMessage("", "");
+      this.renderKeybindingList();
+      return;
+    }
+
+    const keybinding = getKeybinding(e);
+    if (!keybinding) return;
+
+    if (isTypingKeybinding(keybinding)) {
+      this.setKeybindingMessage(
+        `${keybinding} is needed for typing; add Ctrl or Alt`,
+        "error"
+      );
+      return;
+    }
+    this.assignKeybinding(commandId, keybinding);
+  }
+
+  // A keybinding runs one command, so whichever had it before loses it
+  private assignKeybinding(commandId: string, keybinding: string): void {
+    const conflicts = keybinding
+      ? this.getBindableCommands().filter(
+          (command) =>
+            command.id !== commandId &&
+            this.getPendingKeybinding(command.id) === keybinding
+        )
+      : [];
+    conflicts.forEach((command) => this.pendingKeybindings.set(command.id, ""));
+    this.pendingKeybindings.set(commandId, keybinding);
+    this.recordingCommandId = null;
+
+    if (conflicts.length > 0) {
+      const names = conflicts
+        .map((command) => `${command.category}: ${command.title}`)
+        .join(", ");
+      this.setKeybindingMessage(
+        `${keybinding} was bound to ${names}, which is now unbound`,
+        "warning"
+      );
     } else {
-      templatesTab?.classList.remove("active");
-      appearanceTab?.classList.add("active");
-      if (templatesPanel) templatesPanel.style.display = "none";
-      if (appearancePanel) appearancePanel.style.display = "block";
+      this.setKeybindingMessage("", "");
+    }
+    this.renderKeybindingList();
+  }
+
+  private resetAllKeybindings(): void {
+    this.getBindableCommands().forEach(({ id }) =>
+      this.pendingKeybindings.set(id, DEFAULT_KEYBINDINGS[id] ?? "")
+    );
+    this.recordingCommandId = null;
+    this.setKeybindingMessage("", "");
+    this.renderKeybindingList();
+  }
+
+  private readKeybindings(): Record<string, string> {
+    const keybindings: Record<string, string> = {};
+    this.getBindableCommands().forEach(({ id }) => {
+      keybindings[id] = this.getPendingKeybinding(id);
+    });
+    return keybindings;
+  }
+
+  private setKeybindingMessage(
+    message: string,
+    type: "" | "warning" | "error"
+  ): void {
+    const element = document.getElementById("keybinding-message");
+    if (!element) return;
+
+    element.textContent = message;
+    element.className = `keybinding-message${type ? ` ${type}` : ""}`;
+  }
+
+  private loadExecutionSettings(): void {
+    const settings = this.settingsManager.getPistonSettings();
+
+    const baseUrlInput = document.getElementById(
+      "piston-base-url"
+    ) as HTMLInputElement;
+    const headerNameInput = document.getElementById(
+      "piston-auth-header-name"
+    ) as HTMLInputElement;
+    const headerValueInput = document.getElementById(
+      "piston-auth-header-value"
+    ) as HTMLInputElement;
+
+    if (baseUrlInput) baseUrlInput.value = settings.baseUrl;
+    if (headerNameInput) headerNameInput.value = settings.authHeaderName;
+    if (headerValueInput) headerValueInput.value = settings.authHeaderValue;
+
+    this.setPistonTestResult("", "");
+    this.renderBackendList();
+    this.renderTimeoutList();
+
+    this.pendingProfiles.clear();
+    this.editingProfileId = null;
+    this.renderProfileLanguages();
+    this.renderProfileEditor();
+    this.renderCompanionSettings();
+  }
+
+  private renderCompanionSettings(): void {
+    const settings = this.settingsManager.getCompanionSettings();
+
+    const templateSelect = document.getElementById(
+      "companion-template"
+    ) as HTMLSelectElement;
+    if (templateSelect) {
+      templateSelect.innerHTML = "";
+      this.settingsManager.getAllTemplates().forEach((template) => {
+        const option = document.createElement("option");
+        option.value = template.key;
+        option.textContent = template.name;
+        templateSelect.appendChild(option);
+      });
+      templateSelect.value = settings.templateKey;
+    }
+
+    const extensionSelect = document.getElementById(
+      "companion-extension"
+    ) as HTMLSelectElement;
+    if (extensionSelect) {
+      extensionSelect.innerHTML = "";
+      getRunnableLanguages().forEach((language) => {
+        const extension = language.extensions[0];
+        const option = document.createElement("option");
+        option.value = extension;
+        option.textContent = `${language.name} (.${extension})`;
+        extensionSelect.appendChild(option);
+      });
+      extensionSelect.value = settings.extension;
+    }
+  }
+
+  private readCompanionSettings(): CompanionSettings {
+    const current = this.settingsManager.getCompanionSettings();
+    const templateSelect = document.getElementById(
+      "companion-template"
+    ) as HTMLSelectElement;
+    const extensionSelect = document.getElementById(
+      "companion-extension"
+    ) as HTMLSelectElement;
+
+    return {
+      templateKey: templateSelect?.value || current.templateKey,
+      extension: extensionSelect?.value || current.extension,
+    };
+  }
+
+  private renderProfileLanguages(): void {
+    const select = document.getElementById(
+      "profile-language"
+    ) as HTMLSelectElement;
+    if (!select) return;
+
+    select.innerHTML = "";
+    getRunnableLanguages().forEach((language) => {
+      const option = document.createElement("option");
+      option.value = language.id;
+      option.textContent = language.name;
+      select.appendChild(option);
+    });
+    select.value = this.profileLanguage;
+  }
+
+  // Copies the saved profiles on first edit so "Cancel" discards changes
+  private getPendingProfiles(language: string): BuildProfile[] {
+    let profiles = this.pendingProfiles.get(language);
+    if (!profiles) {
+      profiles = this.cloneProfiles(
+        this.settingsManager.getBuildProfiles(language)
+      );
+      this.pendingProfiles.set(language, profiles);
+    }
+    return profiles;
+  }
+
+  private getEditingProfile(): BuildProfile | undefined {
+    const profiles = this.getPendingProfiles(this.profileLanguage);
+    return profiles.find((p) => p.id === this.editingProfileId) || profiles[0];
+  }
+
+  private renderProfileEditor(): void {
+    const profiles = this.getPendingProfiles(this.profileLanguage);
+    const profile = this.getEditingProfile();
+    this.editingProfileId = profile?.id ?? null;
+
+    const profileSelect = document.getElementById(
+      "profile-edit-select"
+    ) as HTMLSelectElement;
+    if (profileSelect) {
+      profileSelect.innerHTML = "";
+      profiles.forEach((p) => {
+        const option = document.createElement("option");
+        option.value = p.id;
+        option.textContent = p.name || "(unnamed)";
+        profileSelect.appendChild(option);
+      });
+      if (profile) profileSelect.value = profile.id;
+    }
+
+    const deleteBtn = document.getElementById(
+      "delete-profile-btn"
+    ) as HTMLButtonElement;
+    if (deleteBtn) deleteBtn.disabled = profiles.length <= 1;
+
+    const nameInput = document.getElementById(
+      "profile-name"
+    ) as HTMLInputElement;
+    const compileInput = document.getElementById(
+      "profile-compile-args"
+    ) as HTMLInputElement;
+    const runInput = document.getElementById(
+      "profile-run-args"
+    ) as HTMLInputElement;
+    if (nameInput) nameInput.value = profile?.name ?? "";
+    if (compileInput) {
+      compileInput.value = formatArgs(profile?.compileArgs ?? []);
+    }
+    if (runInput) runInput.value = formatArgs(profile?.runArgs ?? []);
+
+    // Interpreted languages have no standard to pick
+    const standards = LANGUAGE_STANDARDS[this.profileLanguage] || [];
+    const standardRow = document.getElementById("profile-standard-row");
+    if (standardRow) {
+      standardRow.style.display = standards.length ? "grid" : "none";
+    }
+    const standardSelect = document.getElementById(
+      "profile-standard"
+    ) as HTMLSelectElement;
+    if (standardSelect) {
+      standardSelect.innerHTML = "";
+      ["", ...standards].forEach((standard) => {
+        const option = document.createElement("option");
+        option.value = standard;
+        option.textContent = standard || "Compiler default";
+        standardSelect.appendChild(option);
+      });
+      standardSelect.value = profile?.standard ?? "";
+    }
+
+    // Piston has no compiler flags, so they are only editable for the local
+    // backend picked above
+    const usesPiston =
+      this.getPendingBackend(this.profileLanguage) === "piston";
+    if (compileInput) compileInput.disabled = usesPiston;
+    if (standardSelect) standardSelect.disabled = usesPiston;
+    const backendHint = document.getElementById("profile-backend-hint");
+    if (backendHint) {
+      backendHint.textContent = usesPiston
+        ? "This language runs on Piston, which ignores the standard and compiler flags. Switch it to the local backend to use them."
+        : "";
     }
   }
 
+  private updateCurrentProfile(): void {
+    const profile = this.getEditingProfile();
+    if (!profile) return;
+
+    const read = (id: string) =>
+      (document.getElementById(id) as HTMLInputElement | null)?.value ?? "";
+
+    profile.name = read("profile-name").trim();
+    profile.standard = read("profile-standard");
+    profile.compileArgs = parseArgs(read("profile-compile-args"));
+    profile.runArgs = parseArgs(read("profile-run-args"));
+
+    // Keep the dropdown label in sync with the name field
+    const option = document.querySelector<HTMLOptionElement>(
+      `#profile-edit-select option[value="${profile.id}"]`
+    );
+    if (option) option.textContent = profile.name || "(unnamed)";
+  }
+
+  private addProfile(): void {
+    const profiles = this.getPendingProfiles(this.profileLanguage);
+    const base = this.getEditingProfile() || DEFAULT_BUILD_PROFILE;
+    const profile: BuildProfile = {
+      ...this.cloneProfiles([base])[0],
+      id: `custom-${Date.now()}`,
+      name: "New Profile",
+    };
+
+    profiles.push(profile);
+    this.editingProfileId = profile.id;
+    this.renderProfileEditor();
+    document.getElementById("profile-name")?.focus();
+  }
+
+  private deleteCurrentProfile(): void {
+    const profiles = this.getPendingProfiles(this.profileLanguage);
+    if (profiles.length <= 1) return;
+
+    const index = profiles.findIndex((p) => p.id === this.editingProfileId);
+    if (index === -1) return;
+
+    profiles.splice(index, 1);
+    this.editingProfileId = null;
+    this.renderProfileEditor();
+  }
+
+  private resetProfiles(): void {
+    const defaults = DEFAULT_BUILD_PROFILES[this.profileLanguage] || [
+      DEFAULT_BUILD_PROFILE,
+    ];
+    this.pendingProfiles.set(
+      this.profileLanguage,
+      this.cloneProfiles(defaults)
+    );
+    this.editingProfileId = null;
+    this.renderProfileEditor();
+  }
+
+  private saveBuildProfiles(): void {
+    this.pendingProfiles.forEach((profiles, language) => {
+      const defaults = DEFAULT_BUILD_PROFILES[language] || [
+        DEFAULT_BUILD_PROFILE,
+      ];
+      const isDefault = JSON.stringify(profiles) === JSON.stringify(defaults);
+      this.settingsManager.setBuildProfiles(
+        language,
+        isDefault ? [] : profiles
+      );
+    });
+  }
+
+  private cloneProfiles(profiles: BuildProfile[]): BuildProfile[] {
+    return profiles.map((profile) => ({
+      ...profile,
+      compileArgs: [...profile.compileArgs],
+      runArgs: [...profile.runArgs],
+    }));
+  }
+
+  private renderBackendList(): void {
+    const list = document.getElementById("backend-list");
+    if (!list) return;
+
+    list.innerHTML = "";
+
+    getLocalRunnerLanguages().forEach(({ id: language, name }) => {
+      const row = document.createElement("div");
+      row.className = "form-group backend-row";
+
+      const label = document.createElement("label");
+      label.htmlFor = `backend-select-${language}`;
+      label.textContent = name;
+
+      const select = document.createElement("select");
+      select.id = `backend-select-${language}`;
+      select.className = "form-select";
+      select.setAttribute("data-language", language);
+
+      (Object.keys(EXECUTION_BACKENDS) as ExecutionBackendId[]).forEach(
+        (backend) => {
+          const option = document.createElement("option");
+          option.value = backend;
+          option.textContent = EXECUTION_BACKENDS[backend];
+          select.appendChild(option);
+        }
+      );
+      select.value = this.settingsManager.getExecutionBackend(language);
+      select.addEventListener("change", () => this.renderProfileEditor());
+
+      row.appendChild(label);
+      row.appendChild(select);
+      list.appendChild(row);
+    });
+  }
+
+  private readBackendSelections(): Record<string, ExecutionBackendId> {
+    const backends: Record<string, ExecutionBackendId> = {};
+    document
+      .querySelectorAll<HTMLSelectElement>("#backend-list select")
+      .forEach((select) => {
+        const language = select.getAttribute("data-language");
+        if (language) {
+          backends[language] = select.value as ExecutionBackendId;
+        }
+      });
+    return backends;
+  }
+
+  // The backend picked in the list, which may not be saved yet. Languages
+  // without a local runner always use Piston.
+  private getPendingBackend(language: string): ExecutionBackendId {
+    const select = document.getElementById(
+      `backend-select-${language}`
+    ) as HTMLSelectElement | null;
+    return select
+      ? (select.value as ExecutionBackendId)
+      : this.settingsManager.getExecutionBackend(language);
+  }
+
+  private renderTimeoutList(): void {
+    const list = document.getElementById("timeout-list");
+    if (!list) return;
+
+    list.innerHTML = "";
+
+    getRunnableLanguages().forEach(({ id: language, name }) => {
+      const timeouts = this.settingsManager.getTimeouts(language);
+
+      const row = document.createElement("div");
+      row.className = "form-group backend-row timeout-row";
+      row.setAttribute("data-language", language);
+
+      const label = document.createElement("label");
+      label.textContent = name;
+      row.appendChild(label);
+
+      (["compile", "run"] as const).forEach((stage) => {
+        const input = document.createElement("input");
+        input.type = "number";
+        input.min = "1000";
+        input.step = "1000";
+        input.className = "form-input";
+        input.title = `${stage === "compile" ? "Compile" : "Run"} timeout (ms)`;
+        input.placeholder = input.title;
+        input.setAttribute("data-stage", stage);
+        input.value = timeouts[stage].toString();
+        row.appendChild(input);
+      });
+
+      list.appendChild(row);
+    });
+  }
+
+  // Rows with an empty or invalid value keep their current timeouts
+  private readTimeoutInputs(): Record<string, ExecutionTimeouts> {
+    const timeouts: Record<string, ExecutionTimeouts> = {};
+    document
+      .querySelectorAll<HTMLElement>("#timeout-list .timeout-row")
+      .forEach((row) => {
+        const language = row.getAttribute("data-language");
+        if (!language) return;
+
+        const read = (stage: keyof ExecutionTimeouts) => {
+          const input = row.querySelector<HTMLInputElement>(
+            `input[data-stage="${stage}"]`
+          );
+          return parseInt(input?.value || "", 10);
+        };
+        const compile = read("compile");
+        const run = read("run");
+        if (compile > 0 && run > 0) {
+          timeouts[language] = { compile, run };
+        }
+      });
+    return timeouts;
+  }
+
+  private readExecutionInputs(): PistonSettings {
+    const baseUrlInput = document.getElementById(
+      "piston-base-url"
+    ) as HTMLInputElement;
+    const headerNameInput = document.getElementById(
+      "piston-auth-header-name"
+    ) as HTMLInputElement;
+    const headerValueInput = document.getElementById(
+      "piston-auth-header-value"
+    ) as HTMLInputElement;
+
+    return {
+      baseUrl: baseUrlInput?.value.trim() || "",
+      authHeaderName: headerNameInput?.value.trim() || "",
+      authHeaderValue: headerValueInput?.value.trim() || "",
+    };
+  }
+
+  private async testPistonConnection(): Promise<void> {
+    const settings = this.readExecutionInputs();
+    if (!settings.baseUrl) {
+      this.setPistonTestResult("Please enter a base URL", "error");
+      return;
+    }
+
+    this.setPistonTestResult("Connecting...", "");
+
+    try {
+      const runtimes = await this.pistonService.getRuntimes(settings, true);
+
+      // Group versions by language for display
+      const byLanguage = new Map<string, string[]>();
+      runtimes.forEach((runtime) => {
+        const versions = byLanguage.get(runtime.language) || [];
+        versions.push(runtime.version);
+        byLanguage.set(runtime.language, versions);
+      });
+
+      const lines = [...byLanguage.entries()]
+        .sort(([a], [b]) => a.localeCompare(b))
+        .map(([language, versions]) => `${language}: ${versions.join(", ")}`);
+
+      this.setPistonTestResult(
+        `Connected. ${runtimes.length} runtime(s) installed:\n${lines.join("\n")}`,
+        "success"
+      );
+    } catch (error) {
+      console.error("Piston connection test failed:", error);
+      this.setPistonTestResult(
+        `Connection failed: ${error instanceof Error ? error.message : "Unknown error"
+        }`,
+        "error"
+      );
+    }
+  }
+
+  private setPistonTestResult(
+    text: string,
+    type: "success" | "error" | ""
+  ): void {
+    const result = document.getElementById("piston-test-result");
+    if (!result) return;
+
+    result.textContent = text;
+    result.className = type
+      ? `piston-test-result ${type}`
+      : "piston-test-result";
+  }
+
   private loadThemeSettings(): void {
     const themeSelect = document.getElementById(
       "theme-select"
@@ -272,17 +1126,35 @@ export class SettingsModalManager {
 
   private selectTemplate(key: string): void {
     // Save current editor content before switching
-    if (this.currentEditingKey && this.settingsEditor) {
-      const content = this.settingsEditor.state.doc.toString();
-      this.pendingChanges.set(this.currentEditingKey, content);
-    }
+    this.storeEditorContent();
 
     this.currentEditingKey = key;
+    this.editingSnippetId = null;
     this.renderTemplateList();
+    this.renderSnippetList();
     this.loadTemplateIntoEditor(key);
     this.updateEditorControls(key);
   }
 
+  // Keeps what is in the settings editor as a pending template or snippet
+  private storeEditorContent(): void {
+    if (!this.settingsEditor) return;
+    const content = this.settingsEditor.state.doc.toString();
+
+    if (this.currentEditingKey) {
+      this.pendingChanges.set(this.currentEditingKey, content);
+    }
+    const snippet = this.getEditingSnippet();
+    if (snippet) snippet.body = content;
+  }
+
+  // Built-in templates are highlighted in their own language, custom ones
+  // as C++
+  private getTemplateLanguage(key: string) {
+    const language = findLanguageByTemplate(key) || findLanguageById("cpp");
+    return language ? [language.support()] : [];
+  }
+
   private loadTemplateIntoEditor(key: string): void {
     const template = this.settingsManager
       .getAllTemplates()
@@ -290,7 +1162,19 @@ export class SettingsModalManager {
     if (!template) return;
 
     const content = this.pendingChanges.get(key) || template.code;
+    this.createSettingsEditor(content, this.getTemplateLanguage(key));
+    this.setHeaderMode("template");
+
+    // Update name input
+    const nameInput = document.getElementById(
+      "template-name-input"
+    ) as HTMLInputElement;
+    if (nameInput) {
+      nameInput.value = template.name;
+    }
+  }
 
+  private createSettingsEditor(content: string, language: Extension): void {
     const container = document.getElementById("template-editor-container");
     if (!container) return;
 
@@ -313,7 +1197,7 @@ export class SettingsModalManager {
         lineNumbers(),
         EditorView.lineWrapping,
         history(),
-        cpp(),
+        language,
         themeExtension,
         EditorState.tabSize.of(2),
       ],
@@ -323,13 +1207,16 @@ export class SettingsModalManager {
       state: startState,
       parent: container,
     });
+  }
 
-    // Update name input
-    const nameInput = document.getElementById(
-      "template-name-input"
-    ) as HTMLInputElement;
-    if (nameInput) {
-      nameInput.value = template.name;
+  // Templates show their read-only name, snippets an editable trigger and
+  // language
+  private setHeaderMode(mode: "template" | "snippet"): void {
+    const nameInput = document.getElementById("template-name-input");
+    const snippetFields = document.getElementById("snippet-fields");
+    if (nameInput) nameInput.style.display = mode === "template" ? "" : "none";
+    if (snippetFields) {
+      snippetFields.style.display = mode === "snippet" ? "flex" : "none";
     }
   }
 
@@ -358,7 +1245,7 @@ export class SettingsModalManager {
   }
 
   private isDefaultTemplate(key: string): boolean {
-    return ["csharp", "cpp", "python", "java"].includes(key);
+    return findLanguageByTemplate(key) !== undefined;
   }
 
   private resetCurrentTemplate(): void {
@@ -397,16 +1284,28 @@ export class SettingsModalManager {
 
   private saveAllChanges(): void {
     // Save current editor content
-    if (this.currentEditingKey && this.settingsEditor) {
-      const content = this.settingsEditor.state.doc.toString();
-      this.pendingChanges.set(this.currentEditingKey, content);
-    }
+    this.storeEditorContent();
 
     // Apply all pending template changes
     this.pendingChanges.forEach((code, key) => {
       this.settingsManager.updateTemplate(key, code);
     });
 
+    // Snippets without a trigger can't be completed, so they are dropped
+    this.settingsManager.setSnippets(
+      this.pendingSnippets.filter((snippet) => snippet.label)
+    );
+    const autocompleteToggle = document.getElementById(
+      "autocomplete-toggle"
+    ) as HTMLInputElement;
+    if (autocompleteToggle) {
+      this.settingsManager.setAutocomplete(autocompleteToggle.checked);
+    }
+    const authorInput = document.getElementById(
+      "template-author"
+    ) as HTMLInputElement;
+    if (authorInput) this.settingsManager.setAuthor(authorInput.value);
+
     // Save theme
     const themeSelect = document.getElementById(
       "theme-select"
@@ -415,11 +1314,137 @@ export class SettingsModalManager {
       this.settingsManager.setTheme(themeSelect.value);
     }
 
+    // Save execution settings
+    this.settingsManager.setPistonSettings(this.readExecutionInputs());
+    this.settingsManager.setExecutionBackends(this.readBackendSelections());
+    this.settingsManager.setTimeouts(this.readTimeoutInputs());
+    this.saveBuildProfiles();
+    this.settingsManager.setCompanionSettings(this.readCompanionSettings());
+    this.settingsManager.setKeybindings(this.readKeybindings());
+    const keymapSelect = document.getElementById(
+      "keymap-mode-select"
+    ) as HTMLSelectElement;
+    if (keymapSelect) {
+      this.settingsManager.setKeymapMode(keymapSelect.value as KeymapMode);
+    }
+
     this.hideSettingsModal();
     this.onTemplatesChanged();
     console.log("Settings saved!");
   }
 
+  private renderSnippetList(): void {
+    const listContainer = document.getElementById("snippet-list");
+    if (!listContainer) return;
+
+    listContainer.innerHTML = "";
+
+    this.pendingSnippets.forEach((snippet) => {
+      const item = document.createElement("div");
+      item.className = "template-list-item";
+      if (this.editingSnippetId === snippet.id) {
+        item.classList.add("active");
+      }
+
+      const nameSpan = document.createElement("span");
+      nameSpan.className = "template-list-name";
+      nameSpan.textContent = snippet.label || "(no trigger)";
+
+      const badge = document.createElement("span");
+      badge.className = "template-badge custom";
+      badge.textContent = getLanguageName(snippet.language);
+
+      item.appendChild(nameSpan);
+      item.appendChild(badge);
+
+      item.onclick = () => this.selectSnippet(snippet.id);
+      listContainer.appendChild(item);
+    });
+  }
+
+  private getEditingSnippet(): CodeSnippet | undefined {
+    return this.pendingSnippets.find((s) => s.id === this.editingSnippetId);
+  }
+
+  private selectSnippet(id: string): void {
+    this.storeEditorContent();
+
+    this.currentEditingKey = null;
+    this.editingSnippetId = id;
+    this.renderTemplateList();
+    this.renderSnippetList();
+
+    const snippet = this.getEditingSnippet();
+    if (!snippet) return;
+    this.loadSnippetIntoEditor(snippet);
+
+    const resetBtn = document.getElementById("reset-template-btn");
+    const deleteBtn = document.getElementById("delete-template-btn");
+    if (resetBtn) resetBtn.style.display = "none";
+    if (deleteBtn) deleteBtn.style.display = "inline-block";
+  }
+
+  private loadSnippetIntoEditor(snippet: CodeSnippet): void {
+    const language = findLanguageById(snippet.language);
+    this.createSettingsEditor(
+      snippet.body,
+      language ? [language.support()] : []
+    );
+    this.setHeaderMode("snippet");
+
+    const labelInput = document.getElementById(
+      "snippet-label-input"
+    ) as HTMLInputElement;
+    if (labelInput) labelInput.value = snippet.label;
+
+    const languageSelect = document.getElementById(
+      "snippet-language-select"
+    ) as HTMLSelectElement;
+    if (languageSelect) {
+      languageSelect.innerHTML = "";
+      LANGUAGES.forEach((language) => {
+        const option = document.createElement("option");
+        option.value = language.id;
+        option.textContent = language.name;
+        languageSelect.appendChild(option);
+      });
+      languageSelect.value = snippet.language;
+    }
+  }
+
+  private addSnippet(): void {
+    const snippet: CodeSnippet = {
+      id: `custom-${Date.now()}`,
+      language: this.getEditingSnippet()?.language || "cpp",
+      label: "",
+      body: "",
+    };
+
+    this.pendingSnippets.push(snippet);
+    this.selectSnippet(snippet.id);
+    document.getElementById("snippet-label-input")?.focus();
+  }
+
+  private deleteCurrentSnippet(): void {
+    const index = this.pendingSnippets.findIndex(
+      (s) => s.id === this.editingSnippetId
+    );
+    if (index === -1) return;
+
+    this.pendingSnippets.splice(index, 1);
+    this.editingSnippetId = null;
+
+    const next = this.pendingSnippets[Math.max(index - 1, 0)];
+    const firstTemplate = this.settingsManager.getAllTemplates()[0]?.key;
+    if (next) {
+      this.selectSnippet(next.id);
+    } else if (firstTemplate) {
+      this.selectTemplate(firstTemplate);
+    } else {
+      this.renderSnippetList();
+    }
+  }
+
   private showAddTemplateModal(): void {
     const modal = document.getElementById("add-template-modal");
     modal?.classList.add("show");
@@ -0,0 +1,54 @@
+// src/ui/StatusBarRenderer.ts
+
+import { LANGUAGES } from "../languages";
+import type { Tab } from "../types";
+import { getAutoLanguage } from "../utils/languageDetector";
+
+export class StatusBarRenderer {
+  private onLanguageChange: (languageId: string | null) => void;
+
+  constructor(onLanguageChange: (languageId: string | null) => void) {
+    this.onLanguageChange = onLanguageChange;
+  }
+
+  initialize(): void {
+    const select = document.getElementById(
+      "language-select"
+    ) as HTMLSelectElement;
+    if (!select) return;
+
+    select.innerHTML = "";
+    select.appendChild(this.createOption("", "Auto"));
+    LANGUAGES.forEach((language) => {
+      select.appendChild(this.createOption(language.id, language.name));
+    });
+
+    select.addEventListener("change", () => {
+      this.onLanguageChange(select.value || null);
+      select.blur();
+    });
+  }
+
+  // "Auto" shows what the file name or content resolves to, so the picker
+  // always tells which mode is active
+  render(tab: Tab): void {
+    const select = document.getElementById(
+      "language-select"
+    ) as HTMLSelectElement;
+    if (!select) return;
+
+    const detected = getAutoLanguage(tab);
+    const auto = select.querySelector('option[value=""]');
+    if (auto) auto.textContent = `Auto (${detected?.name || "Plain Text"})`;
+
+    select.value = tab.languageOverride || "";
+    select.classList.toggle("overridden", tab.languageOverride !== null);
+  }
+
+  private createOption(value: string, text: string): HTMLOptionElement {
+    const option = document.createElement("option");
+    option.value = value;
+    option.textContent = text;
+    return option;
+  }
+}
@@ -2,24 +2,59 @@
 
 import type { Tab } from "../types";
 
+// Custom type, so dropping a tab on the editor doesn't insert its id as text
+const TAB_DRAG_TYPE = "application/x-notepad-tab";
+
+// Renders the tab strip of one editor pane
 export class TabRenderer {
+  private tabBarId: string;
   private onTabClick: (tabId: number) => void;
   private onTabClose: (tabId: number) => Promise<void>;
   private onTabRename: (tabId: number, newName: string) => Promise<void>;
+  private onTabDrop: (tabId: number) => void;
   private editingTabId: number | null = null;
 
   constructor(
+    tabBarId: string,
     onTabClick: (tabId: number) => void,
     onTabClose: (tabId: number) => Promise<void>,
-    onTabRename: (tabId: number, newName: string) => Promise<void>
+    onTabRename: (tabId: number, newName: string) => Promise<void>,
+    onTabDrop: (tabId: number) => void
   ) {
+    this.tabBarId = tabBarId;
     this.onTabClick = onTabClick;
     this.onTabClose = onTabClose;
     this.onTabRename = onTabRename;
+    this.onTabDrop = onTabDrop;
+  }
+
+  // Tabs dragged from the other pane's strip can be dropped here
+  initialize(): void {
+    const tabBar = document.getElementById(this.tabBarId);
+    if (!tabBar) return;
+
+    tabBar.addEventListener("dragover", (e) => {
+      if (!e.dataTransfer?.types.includes(TAB_DRAG_TYPE)) return;
+      e.preventDefault();
+      tabBar.classList.add("drop-target");
+    });
+
+    tabBar.addEventListener("dragleave", () => {
+      tabBar.classList.remove("drop-target");
+    });
+
+    tabBar.addEventListener("drop", (e) => {
+      tabBar.classList.remove("drop-target");
+      const tabId = Number(e.dataTransfer?.getData(TAB_DRAG_TYPE));
+      if (!tabId) return;
+
+      e.preventDefault();
+      this.onTabDrop(tabId);
+    });
   }
 
   render(tabs: Tab[], activeTabId: number | null): void {
-    const tabBar = document.getElementById("tab-bar");
+    const tabBar = document.getElementById(this.tabBarId);
     if (!tabBar) return;
 
     tabBar.innerHTML = "";
@@ -31,7 +66,7 @@ export class TabRenderer {
   }
 
   public startRenaming(tabId: number): void {
-    const tabBar = document.getElementById("tab-bar");
+    const tabBar = document.getElementById(this.tabBarId);
     if (!tabBar) return;
 
     const tabEl = tabBar.querySelector(
@@ -115,6 +150,10 @@ export class TabRenderer {
     tabEl.className = this.getTabClasses(tab, activeTabId);
     tabEl.setAttribute("tabindex", "-1");
     tabEl.setAttribute("data-tab-id", tab.id.toString());
+    tabEl.draggable = true;
+    tabEl.ondragstart = (e) => {
+      e.dataTransfer?.setData(TAB_DRAG_TYPE, tab.id.toString());
+    };
     tabEl.onclick = () => {
       // Don't switch tabs if we're editing
       if (this.editingTabId === null) {
@@ -0,0 +1,209 @@
+// src/ui/TestCaseRenderer.ts
+
+import type { TestCase, TestCaseResult } from "../types";
+import { VERDICT_LABELS } from "../constants";
+import { formatElapsed } from "../utils/helpers";
+
+export class TestCaseRenderer {
+  private onTestCaseChange: (
+    testCaseId: number,
+    changes: Partial<Omit<TestCase, "id">>
+  ) => void;
+  private onTestCaseRemove: (testCaseId: number) => void;
+  private onShowDiff: (testCaseId: number) => void;
+
+  constructor(
+    onTestCaseChange: (
+      testCaseId: number,
+      changes: Partial<Omit<TestCase, "id">>
+    ) => void,
+    onTestCaseRemove: (testCaseId: number) => void,
+    onShowDiff: (testCaseId: number) => void
+  ) {
+    this.onTestCaseChange = onTestCaseChange;
+    this.onTestCaseRemove = onTestCaseRemove;
+    this.onShowDiff = onShowDiff;
+  }
+
+  render(
+    testCases: TestCase[],
+    results: Map<number, TestCaseResult>
+  ): void {
+    const list = document.getElementById("testcase-list");
+    if (!list) return;
+
+    list.innerHTML = "";
+
+    if (testCases.length === 0) {
+      const placeholder = document.createElement("div");
+      placeholder.className = "testcase-placeholder";
+      placeholder.textContent =
+        'No test cases yet. Click "+ Add" to create one.';
+      list.appendChild(placeholder);
+    }
+
+    testCases.forEach((testCase, index) => {
+      list.appendChild(
+        this.createTestCaseElement(testCase, index, results.get(testCase.id))
+      );
+    });
+
+    this.renderSummary(testCases, results);
+  }
+
+  private renderSummary(
+    testCases: TestCase[],
+    results: Map<number, TestCaseResult>
+  ): void {
+    const summary = document.getElementById("testcase-summary");
+    if (!summary) return;
+
+    const finished = testCases.filter((t) => results.has(t.id));
+    if (finished.length === 0) {
+      summary.textContent = "";
+      summary.className = "testcase-summary";
+      return;
+    }
+
+    const passed = finished.filter(
+      (t) => results.get(t.id)?.verdict === "AC"
+    ).length;
+    summary.textContent = `${passed}/${testCases.length} passed`;
+    summary.className =
+      passed === testCases.length
+        ? "testcase-summary all-passed"
+        : "testcase-summary some-failed";
+  }
+
+  private createTestCaseElement(
+    testCase: TestCase,
+    index: number,
+    result: TestCaseResult | undefined
+  ): HTMLElement {
+    const item = document.createElement("div");
+    item.className = "testcase-item";
+    item.setAttribute("data-testcase-id", testCase.id.toString());
+
+    // Header
+    const header = document.createElement("div");
+    header.className = "testcase-header";
+
+    const title = document.createElement("span");
+    title.className = "testcase-title";
+    title.textContent = `Test #${index + 1}`;
+    header.appendChild(title);
+
+    if (result) {
+      const badge = document.createElement("span");
+      badge.className = `verdict-badge verdict-${result.verdict.toLowerCase()}`;
+      badge.textContent = VERDICT_LABELS[result.verdict];
+      header.appendChild(badge);
+
+      // Skipped cases after a compile error were never executed
+      if (result.elapsedMs > 0) {
+        const elapsed = document.createElement("span");
+        elapsed.className = "testcase-elapsed";
+        elapsed.textContent = formatElapsed(result.elapsedMs);
+        header.appendChild(elapsed);
+      }
+
+      if (result.verdict === "WA") {
+        const diffBtn = document.createElement("button");
+        diffBtn.className = "secondary-btn small-btn testcase-diff-btn";
+        diffBtn.textContent = "Diff";
+        diffBtn.title = "Compare expected and actual output";
+        diffBtn.onclick = () => this.onShowDiff(testCase.id);
+        header.appendChild(diffBtn);
+      }
+    }
+
+    const removeBtn = document.createElement("button");
+    removeBtn.className = "testcase-remove";
+    removeBtn.title = "Remove test case";
+    removeBtn.innerHTML = "×";
+    removeBtn.onclick = () => this.onTestCaseRemove(testCase.id);
+    header.appendChild(removeBtn);
+
+    item.appendChild(header);
+
+    // Input / expected output
+    const body = document.createElement("div");
+    body.className = "testcase-body";
+    body.appendChild(
+      this.createField("Input", testCase.stdin, (value) =>
+        this.onTestCaseChange(testCase.id, { stdin: value })
+      )
+    );
+    body.appendChild(
+      this.createField("Expected Output", testCase.expectedOutput, (value) =>
+        this.onTestCaseChange(testCase.id, { expectedOutput: value })
+      )
+    );
+    item.appendChild(body);
+
+    // Actual output for failed cases
+    if (result && result.verdict !== "AC") {
+      const actual = document.createElement("div");
+      actual.className = "testcase-actual";
+
+      const label = document.createElement("span");
+      label.className = "testcase-label";
+      label.textContent =
+        result.verdict === "CE" ? "Compiler Output" : "Actual Output";
+
+      const pre = document.createElement("pre");
+      pre.textContent =
+        [result.stdout, result.stderr].filter(Boolean).join("\n") ||
+        "(no output)";
+
+      actual.appendChild(label);
+      actual.appendChild(pre);
+      item.appendChild(actual);
+    }
+
+    // Message printed by the checker program, e.g. "ok 3 numbers"
+    if (result?.checkerMessage) {
+      const checker = document.createElement("div");
+      checker.className =
+        result.verdict === "AC"
+          ? "testcase-actual testcase-checker"
+          : "testcase-actual";
+
+      const label = document.createElement("span");
+      label.className = "testcase-label";
+      label.textContent = "Checker";
+
+      const pre = document.createElement("pre");
+      pre.textContent = result.checkerMessage;
+
+      checker.appendChild(label);
+      checker.appendChild(pre);
+      item.appendChild(checker);
+    }
+
+    return item;
+  }
+
+  private createField(
+    labelText: string,
+    value: string,
+    onInput: (value: string) => void
+  ): HTMLElement {
+    const field = document.createElement("div");
+    field.className = "testcase-field";
+
+    const label = document.createElement("span");
+    label.className = "testcase-label";
+    label.textContent = labelText;
+
+    const textarea = document.createElement("textarea");
+    textarea.className = "testcase-textarea";
+    textarea.value = value;
+    textarea.spellcheck = false;
+    textarea.addEventListener("input", () => onInput(textarea.value));
+
+    field.appendChild(label);
+    field.appendChild(textarea);
+    return field;
+  }
+}
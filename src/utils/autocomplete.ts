@@ -0,0 +1,62 @@
+// src/utils/autocomplete.ts
+
+import {
+  autocompletion,
+  completeAnyWord,
+  completeFromList,
+  snippetCompletion,
+} from "@codemirror/autocomplete";
+import type { Completion } from "@codemirror/autocomplete";
+import { EditorState, Extension } from "@codemirror/state";
+import { DEFAULT_SNIPPETS, LANGUAGE_KEYWORDS } from "../languages/completions";
+import type { CodeSnippet } from "../types";
+
+// Keywords and snippets of the language plus words already in the buffer.
+// Completions from the language's own CodeMirror package (Python builtins,
+// JavaScript snippets) are kept alongside them.
+export function getAutocompleteExtension(
+  languageId: string | null,
+  userSnippets: CodeSnippet[],
+  enabled: boolean
+): Extension {
+  if (!enabled) return [];
+
+  const options = languageId
+    ? [
+        ...getSnippetCompletions(languageId, userSnippets),
+        ...getKeywordCompletions(languageId),
+      ]
+    : [];
+
+  return [
+    autocompletion(),
+    EditorState.languageData.of(() => [
+      { autocomplete: completeAnyWord },
+      ...(options.length ? [{ autocomplete: completeFromList(options) }] : []),
+    ]),
+  ];
+}
+
+function getKeywordCompletions(languageId: string): Completion[] {
+  return (LANGUAGE_KEYWORDS[languageId] || []).map((keyword) => ({
+    label: keyword,
+    type: "keyword",
+  }));
+}
+
+function getSnippetCompletions(
+  languageId: string,
+  userSnippets: CodeSnippet[]
+): Completion[] {
+  return [...DEFAULT_SNIPPETS, ...userSnippets]
+    .filter((snippet) => snippet.language === languageId && snippet.label)
+    .map((snippet) =>
+      snippetCompletion(snippet.body, {
+        label: snippet.label,
+        detail: snippet.body.split("\n")[0].replace(/\$\{(\w*)\}/g, "$1"),
+        type: "text",
+        // Snippets sort above words with the same prefix
+        boost: 1,
+      })
+    );
+}
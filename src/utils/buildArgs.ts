@@ -0,0 +1,49 @@
+// src/utils/buildArgs.ts
+
+import type { BuildArgs, BuildProfile } from "../types";
+
+// Compiler flag that selects a language standard
+function getStandardArgs(language: string, standard: string): string[] {
+  if (!standard) return [];
+
+  switch (language) {
+    case "cpp":
+    case "c":
+      return [`-std=${standard}`];
+    case "java":
+      return ["--release", standard];
+    default:
+      return [];
+  }
+}
+
+export function getBuildArgs(
+  language: string,
+  profile: BuildProfile
+): BuildArgs {
+  return {
+    compileArgs: [
+      ...getStandardArgs(language, profile.standard),
+      ...profile.compileArgs,
+    ],
+    runArgs: [...profile.runArgs],
+  };
+}
+
+// Splits a command line on whitespace; single or double quotes group words
+export function parseArgs(text: string): string[] {
+  const args: string[] = [];
+  const pattern = /"([^"]*)"|'([^']*)'|(\S+)/g;
+
+  for (const match of text.matchAll(pattern)) {
+    args.push(match[1] ?? match[2] ?? match[3]);
+  }
+
+  return args;
+}
+
+export function formatArgs(args: string[]): string {
+  return args
+    .map((arg) => (/\s/.test(arg) || arg === "" ? `"${arg}"` : arg))
+    .join(" ");
+}
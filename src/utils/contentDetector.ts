@@ -0,0 +1,193 @@
+// src/utils/contentDetector.ts
+
+import { LANGUAGE_DETECTION } from "../constants";
+import { LANGUAGES } from "../languages";
+
+interface ContentRule {
+  language: string;
+  pattern: RegExp;
+  score: number;
+}
+
+// Interpreters whose name doesn't match a language id, extension or name
+const SHEBANG_INTERPRETERS: Record<string, string> = {
+  node: "javascript",
+  nodejs: "javascript",
+  bun: "javascript",
+  deno: "typescript",
+  "ts-node": "typescript",
+};
+
+// Each matching rule adds its score to the language; patterns shared by
+// several languages score lower than their distinctive ones
+const CONTENT_RULES: ContentRule[] = [
+  { language: "cpp", pattern: /^\s*#include\s*[<"]/m, score: 2 },
+  {
+    language: "cpp",
+    pattern:
+      /^\s*#include\s*<(bits\/stdc\+\+\.h|iostream|vector|string|algorithm|map|set)>/m,
+    score: 3,
+  },
+  { language: "cpp", pattern: /\busing\s+namespace\s+std\s*;/, score: 3 },
+  { language: "cpp", pattern: /\bstd::\w+/, score: 2 },
+  { language: "cpp", pattern: /\bc(in|out)\s*(<<|>>)/, score: 2 },
+  {
+    language: "c",
+    pattern: /^\s*#include\s*<(stdio|stdlib|string)\.h>/m,
+    score: 3,
+  },
+  { language: "c", pattern: /\b(printf|scanf)\s*\(/, score: 1 },
+  {
+    language: "csharp",
+    pattern: /^\s*using\s+System(\.[\w.]+)?\s*;/m,
+    score: 4,
+  },
+  { language: "csharp", pattern: /\bstatic\s+\w+\s+Main\s*\(/, score: 3 },
+  { language: "csharp", pattern: /\bConsole\.(Write|Read)/, score: 3 },
+  {
+    language: "java",
+    pattern: /\bpublic\s+static\s+void\s+main\s*\(\s*(final\s+)?String/,
+    score: 4,
+  },
+  { language: "java", pattern: /^\s*import\s+java\.[\w.*]+\s*;/m, score: 4 },
+  { language: "java", pattern: /\bSystem\.out\.print/, score: 3 },
+  {
+    language: "python",
+    pattern: /^\s*def\s+\w+\s*\(.*\)\s*(->.+)?:\s*$/m,
+    score: 3,
+  },
+  {
+    language: "python",
+    pattern:
+      /^\s*(from\s+[\w.]+\s+)?import\s+[\w.]+(\s+as\s+\w+)?(\s*,\s*[\w.]+)*\s*$/m,
+    score: 2,
+  },
+  { language: "python", pattern: /^\s*if\s+__name__\s*==/m, score: 3 },
+  {
+    language: "python",
+    pattern: /^\s*(elif\b.*|else|try|except\b.*):\s*$/m,
+    score: 2,
+  },
+  { language: "javascript", pattern: /\bconsole\.log\s*\(/, score: 3 },
+  { language: "javascript", pattern: /\brequire\s*\(\s*['"]/, score: 3 },
+  { language: "javascript", pattern: /^\s*(const|let)\s+\w+\s*=/m, score: 1 },
+  { language: "javascript", pattern: /\bfunction\s*\w*\s*\(/, score: 1 },
+  {
+    language: "typescript",
+    pattern: /^\s*(const|let)\s+\w+\s*:\s*[\w<>[\]]+\s*=/m,
+    score: 3,
+  },
+  {
+    language: "typescript",
+    pattern: /^\s*(export\s+)?interface\s+\w+\s*\{/m,
+    score: 3,
+  },
+  { language: "rust", pattern: /\bfn\s+main\s*\(\s*\)/, score: 4 },
+  { language: "rust", pattern: /\blet\s+mut\b/, score: 3 },
+  { language: "rust", pattern: /^\s*use\s+std::/m, score: 3 },
+  { language: "rust", pattern: /\bprintln!\s*\(/, score: 3 },
+  { language: "go", pattern: /^\s*package\s+main\s*$/m, score: 4 },
+  {
+    language: "go",
+    pattern: /^\s*func\s+(\(\w+\s+\*?\w+\)\s*)?\w+\s*\(/m,
+    score: 2,
+  },
+  { language: "go", pattern: /\bfmt\.\w+\s*\(/, score: 3 },
+  { language: "markdown", pattern: /^```/m, score: 3 },
+  { language: "markdown", pattern: /\[[^\]]+\]\([^)]+\)/, score: 2 },
+  { language: "markdown", pattern: /^#{1,6}\s+\S/m, score: 1 },
+];
+
+// Guesses the language of a buffer from, in order, a Vim or Emacs modeline,
+// a shebang, JSON syntax and finally the scores of the content rules.
+// Returns null when nothing is convincing.
+export function detectLanguageFromContent(content: string): string | null {
+  const sample = content.slice(0, LANGUAGE_DETECTION.sampleLength);
+  if (!sample.trim()) return null;
+
+  return (
+    detectFromModeline(sample) ??
+    detectFromShebang(sample) ??
+    detectJson(sample) ??
+    detectFromRules(sample)
+  );
+}
+
+// Matches "python3", "c++", "cs", "rs", ... against ids, names and extensions
+function findLanguageByAlias(alias: string): string | null {
+  const name = alias.toLowerCase().replace(/\d+(\.\d+)*$/, "");
+  const language = LANGUAGES.find(
+    (language) =>
+      language.id === name ||
+      language.name.toLowerCase() === name ||
+      language.extensions.includes(name)
+  );
+  return language?.id ?? null;
+}
+
+// "vim: set ft=cpp:", "vi: filetype=python" or "-*- mode: rust -*-" in the
+// first or last five lines
+function detectFromModeline(sample: string): string | null {
+  const lines = sample.split("\n");
+  const candidates = [...lines.slice(0, 5), ...lines.slice(-5)];
+
+  for (const line of candidates) {
+    const vim = line.match(
+      /\b(?:vim?|ex):.*?\b(?:ft|filetype|syntax)=([\w+#-]+)/
+    );
+    const emacs = line.match(/-\*-\s*(?:.*?mode:\s*)?([\w+#-]+)\s*;?.*?-\*-/i);
+    const alias = vim?.[1] ?? emacs?.[1];
+    const language = alias ? findLanguageByAlias(alias) : null;
+    if (language) return language;
+  }
+  return null;
+}
+
+// "#!/usr/bin/python3" or "#!/usr/bin/env node"
+function detectFromShebang(sample: string): string | null {
+  const match = sample.match(/^#!\s*(\S+)(?:\s+(?:-\S+\s+)*(\S+))?/);
+  if (!match) return null;
+
+  const program = match[1].split("/").pop() || "";
+  const interpreter = program === "env" ? match[2] || "" : program;
+  const name = interpreter.replace(/\d+(\.\d+)*$/, "");
+  return SHEBANG_INTERPRETERS[name] ?? findLanguageByAlias(interpreter);
+}
+
+function detectJson(sample: string): string | null {
+  const trimmed = sample.trim();
+  if (!/^[[{]/.test(trimmed)) return null;
+
+  try {
+    JSON.parse(trimmed);
+    return "json";
+  } catch {
+    return null;
+  }
+}
+
+function detectFromRules(sample: string): string | null {
+  const scores = new Map<string, number>();
+  CONTENT_RULES.forEach(({ language, pattern, score }) => {
+    if (pattern.test(sample)) {
+      scores.set(language, (scores.get(language) ?? 0) + score);
+    }
+  });
+
+  // TypeScript code is usually JavaScript with types, so once something
+  // TypeScript-only shows up the JavaScript matches count for it too
+  const typescript = scores.get("typescript");
+  if (typescript !== undefined) {
+    scores.set("typescript", typescript + (scores.get("javascript") ?? 0));
+  }
+
+  let best: string | null = null;
+  let bestScore = LANGUAGE_DETECTION.minScore - 1;
+  for (const [language, score] of scores) {
+    if (score > bestScore) {
+      best = language;
+      bestScore = score;
+    }
+  }
+  return best;
+}
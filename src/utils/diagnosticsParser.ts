@@ -0,0 +1,163 @@
+// src/utils/diagnosticsParser.ts
+
+import type { CompilerDiagnostic } from "../types";
+
+// g++ / gcc / clang: main.cpp:5:10: error: expected ';' before '}' token
+const GCC_PATTERN =
+  /^(.+?):(\d+):(?:(\d+):)?\s+(fatal error|error|warning|note):\s+(.*)$/;
+
+// javac: Main.java:5: error: ';' expected
+const JAVAC_PATTERN = /^(.+?\.java):(\d+):\s+(error|warning):\s+(.*)$/;
+
+// mcs / csc: Program.cs(5,10): error CS1002: ; expected
+const CSHARP_PATTERN =
+  /^(.+?)\((\d+),(\d+)\):\s+(error|warning)\s+(\w+):\s+(.*)$/;
+
+// Python traceback frame:   File "main.py", line 5, in <module>
+const PYTHON_FRAME_PATTERN = /^\s*File "(.+?)", line (\d+)/;
+
+// Final traceback line: NameError: name 'x' is not defined
+const PYTHON_ERROR_PATTERN =
+  /^([A-Za-z_][\w.]*(?:Error|Exception|Warning|Exit|Interrupt)):?\s*(.*)$/;
+
+// Library headers, the Python stdlib and site-packages are not the user's code
+const SYSTEM_PATH_PATTERN =
+  /^(\/usr\/|\/opt\/|\/Library\/|[A-Za-z]:\\Program Files|<)|[\\/](site-packages|lib\/python[\d.]*)[\\/]/;
+
+export function parseCompilerOutput(
+  language: string,
+  output: string
+): CompilerDiagnostic[] {
+  if (!output) return [];
+
+  const lines = output.replace(/\r\n?/g, "\n").split("\n");
+  let diagnostics: CompilerDiagnostic[];
+
+  switch (language) {
+    case "cpp":
+    case "c":
+      diagnostics = parseGccOutput(lines);
+      break;
+    case "java":
+      diagnostics = parseJavacOutput(lines);
+      break;
+    case "csharp":
+      diagnostics = parseCSharpOutput(lines);
+      break;
+    case "python":
+      diagnostics = parsePythonTraceback(lines);
+      break;
+    default:
+      diagnostics = [];
+  }
+
+  return diagnostics.filter((d) => !d.file || !isSystemPath(d.file));
+}
+
+function isSystemPath(file: string): boolean {
+  return SYSTEM_PATH_PATTERN.test(file);
+}
+
+function toSeverity(kind: string): CompilerDiagnostic["severity"] {
+  if (kind.includes("error")) return "error";
+  if (kind === "warning") return "warning";
+  return "info";
+}
+
+function parseGccOutput(lines: string[]): CompilerDiagnostic[] {
+  const diagnostics: CompilerDiagnostic[] = [];
+
+  lines.forEach((line) => {
+    const match = GCC_PATTERN.exec(line);
+    if (!match) return;
+
+    diagnostics.push({
+      file: match[1],
+      line: parseInt(match[2], 10),
+      column: match[3] ? parseInt(match[3], 10) : null,
+      severity: toSeverity(match[4]),
+      message: match[5],
+    });
+  });
+
+  return diagnostics;
+}
+
+function parseJavacOutput(lines: string[]): CompilerDiagnostic[] {
+  const diagnostics: CompilerDiagnostic[] = [];
+
+  lines.forEach((line, index) => {
+    const match = JAVAC_PATTERN.exec(line);
+    if (!match) return;
+
+    // javac echoes the source line followed by a caret under the column
+    let column: number | null = null;
+    for (let i = index + 1; i <= index + 3 && i < lines.length; i++) {
+      if (/^\s*\^\s*$/.test(lines[i])) {
+        column = lines[i].indexOf("^") + 1;
+        break;
+      }
+    }
+
+    diagnostics.push({
+      file: match[1],
+      line: parseInt(match[2], 10),
+      column,
+      severity: toSeverity(match[3]),
+      message: match[4],
+    });
+  });
+
+  return diagnostics;
+}
+
+function parseCSharpOutput(lines: string[]): CompilerDiagnostic[] {
+  const diagnostics: CompilerDiagnostic[] = [];
+
+  lines.forEach((line) => {
+    const match = CSHARP_PATTERN.exec(line.trim());
+    if (!match) return;
+
+    diagnostics.push({
+      file: match[1],
+      line: parseInt(match[2], 10),
+      column: parseInt(match[3], 10),
+      severity: toSeverity(match[4]),
+      message: `${match[5]}: ${match[6]}`,
+    });
+  });
+
+  return diagnostics;
+}
+
+// Reports the innermost frame in user code against the exception message
+function parsePythonTraceback(lines: string[]): CompilerDiagnostic[] {
+  const diagnostics: CompilerDiagnostic[] = [];
+  let frame: { file: string; line: number } | null = null;
+
+  lines.forEach((line) => {
+    const frameMatch = PYTHON_FRAME_PATTERN.exec(line);
+    if (frameMatch && !isSystemPath(frameMatch[1])) {
+      frame = { file: frameMatch[1], line: parseInt(frameMatch[2], 10) };
+      return;
+    }
+    if (frameMatch) return;
+
+    const errorMatch = PYTHON_ERROR_PATTERN.exec(line);
+    if (!errorMatch || !frame) return;
+
+    diagnostics.push({
+      file: frame.file,
+      line: frame.line,
+      // Tracebacks print the source line stripped, so carets can't be mapped
+      column: null,
+      severity: errorMatch[1].endsWith("Warning") ? "warning" : "error",
+      message: errorMatch[2]
+        ? `${errorMatch[1]}: ${errorMatch[2]}`
+        : errorMatch[1],
+    });
+    frame = null;
+  });
+
+  return diagnostics;
+}
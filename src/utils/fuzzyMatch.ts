@@ -0,0 +1,44 @@
+// src/utils/fuzzyMatch.ts
+
+export interface FuzzyMatch {
+  score: number;
+  // Positions in the text of the matched characters
+  indices: number[];
+}
+
+// Matches the characters of the query in order, ignoring case and spaces.
+// Runs of consecutive characters and characters starting a word score
+// higher, and shorter texts win ties.
+export function fuzzyMatch(query: string, text: string): FuzzyMatch | null {
+  const needle = query.toLowerCase().replace(/\s+/g, "");
+  const haystack = text.toLowerCase();
+  const indices: number[] = [];
+  let score = 0;
+  let from = 0;
+
+  for (const char of needle) {
+    const index = haystack.indexOf(char, from);
+    if (index === -1) return null;
+
+    score += 1;
+    if (index > 0 && indices[indices.length - 1] === index - 1) score += 4;
+    if (isWordStart(text, index)) score += 3;
+
+    indices.push(index);
+    from = index + 1;
+  }
+
+  return { score: score - text.length / 100, indices };
+}
+
+// "Split Editor", "main.cpp", "goToLine"
+function isWordStart(text: string, index: number): boolean {
+  if (index === 0) return true;
+
+  const previous = text[index - 1];
+  const char = text[index];
+  return (
+    /[\s\-_.:/()]/.test(previous) ||
+    (/[a-z]/.test(previous) && /[A-Z]/.test(char))
+  );
+}
@@ -6,6 +6,27 @@ export function extractFileName(path: string): string {
   return path.split(/[/\\]/).pop() || EDITOR_CONFIG.defaultFileName;
 }
 
-export function expectsInput(code: string): boolean {
-  return /Console\.ReadLine\s*\(/.test(code);
+// Drops characters that are not allowed in file names on Windows or Unix
+export function sanitizeFileName(name: string): string {
+  return (
+    name
+      .replace(/[\\/:*?"<>|]/g, "")
+      .replace(/\s+/g, " ")
+      .trim() || EDITOR_CONFIG.defaultFileName
+  );
+}
+
+// SHA-256 of the source, used to tell whether a history entry ran this code
+export async function hashCode(code: string): Promise<string> {
+  const digest = await crypto.subtle.digest(
+    "SHA-256",
+    new TextEncoder().encode(code)
+  );
+  return Array.from(new Uint8Array(digest))
+    .map((byte) => byte.toString(16).padStart(2, "0"))
+    .join("");
+}
+
+export function formatElapsed(ms: number): string {
+  return ms < 1000 ? `${Math.round(ms)} ms` : `${(ms / 1000).toFixed(2)} s`;
 }
@@ -0,0 +1,166 @@
+// src/utils/inputDetector.ts
+
+import type { Language } from "@codemirror/language";
+import { cppLanguage } from "@codemirror/lang-cpp";
+import { javaLanguage } from "@codemirror/lang-java";
+import { csharpLanguage } from "@replit/codemirror-lang-csharp";
+import type { CommentTokens } from "../types";
+import { findLanguageById } from "../languages";
+
+type Range = [from: number, to: number];
+
+interface LexicalSyntax {
+  comments: CommentTokens;
+  // Longest delimiters first, e.g. Python's """ before "
+  quotes: string[];
+}
+
+// Calls that read standard input. Matched against the source with comments
+// and string literals ignored.
+const INPUT_PATTERNS: Record<string, RegExp[]> = {
+  cpp: [
+    /\bcin\s*>>/,
+    /\b(?:std::)?getline\s*\(\s*(?:std::)?cin\b/,
+    /\b(?:scanf|scanf_s|getchar|gets|getc|fgetc|fgets|fread)\s*\(/,
+    /\bstdin\b/,
+  ],
+  c: [
+    /\b(?:scanf|scanf_s|getchar|gets|getc|fgetc|fgets|fread|getline)\s*\(/,
+    /\bstdin\b/,
+  ],
+  python: [/(?<!\.)\binput\s*\(/, /\bsys\.stdin\b/, /\bfileinput\.input\s*\(/],
+  java: [
+    /\bnew\s+Scanner\s*\(\s*System\.in\b/,
+    /\bnew\s+BufferedReader\s*\(/,
+    /\bnew\s+InputStreamReader\s*\(\s*System\.in\b/,
+    /\bSystem\.in\b/,
+    /\bSystem\.console\s*\(\s*\)\s*\.readLine\s*\(/,
+  ],
+  csharp: [
+    /\bConsole\.(?:ReadLine|Read)\s*\(/,
+    /\bConsole\.(?:In|OpenStandardInput)\b/,
+  ],
+  javascript: [
+    /\bprocess\.stdin\b/,
+    /\breadFileSync\s*\(\s*(?:0\b|["'`]\/dev\/stdin)/,
+  ],
+};
+
+// Languages with a Lezer grammar get an exact syntax tree
+const GRAMMARS: Record<string, Language> = {
+  cpp: cppLanguage,
+  c: cppLanguage,
+  java: javaLanguage,
+  csharp: csharpLanguage,
+};
+
+// Comment and literal node names across the C++, Java and C# grammars
+const IGNORED_NODE_PATTERN =
+  /Comment|String|CharLiteral|CharacterLiteral|TextBlock/;
+
+// String delimiters for the fallback tokenizer, used for languages without a
+// grammar here. Comment tokens come from the language registry.
+const QUOTES: Record<string, string[]> = {
+  python: ['"""', "'''", '"', "'"],
+  javascript: ["`", '"', "'"],
+};
+
+export function expectsInput(language: string, code: string): boolean {
+  const patterns = INPUT_PATTERNS[language];
+  if (!patterns) return false;
+
+  const ignored = findIgnoredRanges(language, code);
+
+  return patterns.some((pattern) => {
+    const global = new RegExp(pattern.source, "g");
+    for (const match of code.matchAll(global)) {
+      if (!isInside(ignored, match.index ?? 0)) return true;
+    }
+    return false;
+  });
+}
+
+function findIgnoredRanges(language: string, code: string): Range[] {
+  const grammar = GRAMMARS[language];
+  if (grammar) return findIgnoredNodes(grammar, code);
+
+  const quotes = QUOTES[language];
+  const comments = findLanguageById(language)?.comments;
+  return quotes && comments
+    ? scanIgnoredRanges({ comments, quotes }, code)
+    : [];
+}
+
+function findIgnoredNodes(grammar: Language, code: string): Range[] {
+  const ranges: Range[] = [];
+
+  grammar.parser.parse(code).iterate({
+    enter: (node) => {
+      if (!IGNORED_NODE_PATTERN.test(node.name)) return;
+      ranges.push([node.from, node.to]);
+      return false;
+    },
+  });
+
+  return ranges;
+}
+
+// Single pass over the source that records comments and string literals.
+// Escapes are honoured; unterminated tokens run to the end of the line
+// (or the end of the file for block comments and triple quotes).
+function scanIgnoredRanges(syntax: LexicalSyntax, code: string): Range[] {
+  const { line, block } = syntax.comments;
+  const ranges: Range[] = [];
+  let i = 0;
+
+  while (i < code.length) {
+    if (line && code.startsWith(line, i)) {
+      const end = code.indexOf("\n", i);
+      const to = end === -1 ? code.length : end;
+      ranges.push([i, to]);
+      i = to;
+      continue;
+    }
+
+    if (block && code.startsWith(block[0], i)) {
+      const [open, close] = block;
+      const end = code.indexOf(close, i + open.length);
+      const to = end === -1 ? code.length : end + close.length;
+      ranges.push([i, to]);
+      i = to;
+      continue;
+    }
+
+    const quote = syntax.quotes.find((q) => code.startsWith(q, i));
+    if (quote) {
+      const to = findStringEnd(code, i + quote.length, quote);
+      ranges.push([i, to]);
+      i = to;
+      continue;
+    }
+
+    i++;
+  }
+
+  return ranges;
+}
+
+function findStringEnd(code: string, start: number, quote: string): number {
+  const multiline = quote.length === 3 || quote === "`";
+
+  for (let i = start; i < code.length; i++) {
+    if (code[i] === "\\") {
+      i++;
+    } else if (code.startsWith(quote, i)) {
+      return i + quote.length;
+    } else if (code[i] === "\n" && !multiline) {
+      return i;
+    }
+  }
+
+  return code.length;
+}
+
+function isInside(ranges: Range[], position: number): boolean {
+  return ranges.some(([from, to]) => position >= from && position < to);
+}
@@ -0,0 +1,37 @@
+// src/utils/keybindings.ts
+
+const MODIFIER_KEYS = ["Control", "Shift", "Alt", "Meta"];
+
+// Shifted symbols that share a key with an unshifted one, so Ctrl++ zooms
+// in like Ctrl+=
+const SHIFTED_SYMBOLS: Record<string, string> = { "+": "=", _: "-" };
+
+// The keybinding a keydown event stands for, e.g. "Ctrl+Shift+P", or null
+// while only a modifier is held
+export function getKeybinding(e: KeyboardEvent): string | null {
+  if (MODIFIER_KEYS.includes(e.key)) return null;
+
+  const key = e.key.length === 1 ? e.key.toUpperCase() : e.key;
+  // A symbol typed with Shift already tells that Shift was held
+  const isSymbol = key.length === 1 && !/[A-Z0-9]/.test(key);
+
+  const parts: string[] = [];
+  if (e.ctrlKey) parts.push("Ctrl");
+  if (e.shiftKey && !isSymbol) parts.push("Shift");
+  if (e.altKey) parts.push("Alt");
+  parts.push(key === " " ? "Space" : (SHIFTED_SYMBOLS[key] ?? key));
+  return parts.join("+");
+}
+
+// Keys that type or edit text, which would stop working in the editor if
+// they ran a command without Ctrl or Alt
+const EDITING_KEYS = ["Space", "Enter", "Tab", "Backspace", "Delete"];
+
+export function isTypingKeybinding(keybinding: string): boolean {
+  const parts = keybinding.split("+");
+  const key = parts[parts.length - 1];
+  const hasCommandModifier = parts.includes("Ctrl") || parts.includes("Alt");
+  return (
+    !hasCommandModifier && (key.length === 1 || EDITING_KEYS.includes(key))
+  );
+}
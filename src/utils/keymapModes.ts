@@ -0,0 +1,37 @@
+// src/utils/keymapModes.ts
+
+import { Extension } from "@codemirror/state";
+import { Vim, vim } from "@replit/codemirror-vim";
+import { emacs } from "@replit/codemirror-emacs";
+import type { KeymapMode } from "../types";
+
+export interface VimCommandCallbacks {
+  onSave: () => Promise<void>;
+  onClose: () => void;
+}
+
+// Vim's status panel is the mode indicator: it shows --INSERT--, pending
+// keys and the : prompt under each pane
+export function getKeymapExtension(mode: KeymapMode): Extension {
+  switch (mode) {
+    case "vim":
+      return vim({ status: true });
+    case "emacs":
+      return emacs();
+    default:
+      return [];
+  }
+}
+
+// Ex commands are shared by every Vim editor, so they act on the focused
+// pane like the toolbar does
+export function defineVimCommands(callbacks: VimCommandCallbacks): void {
+  Vim.defineEx("write", "w", () => {
+    callbacks.onSave();
+  });
+  Vim.defineEx("quit", "q", () => callbacks.onClose());
+  Vim.defineEx("wq", "wq", async () => {
+    await callbacks.onSave();
+    callbacks.onClose();
+  });
+}
@@ -1,33 +1,30 @@
 // src/utils/languageDetector.ts
 
-import { cpp } from "@codemirror/lang-cpp";
-import { java } from "@codemirror/lang-java";
-import { LANGUAGE_IDS } from "../constants";
+import { findLanguageById, findLanguageByPath } from "../languages";
+import type { LanguageDefinition, Tab } from "../types";
 
-export function getLanguageId(filePath: string | null): string {
-  if (!filePath) return "";
-  const ext = filePath.split(".").pop()?.toLowerCase() || "";
-  return LANGUAGE_IDS[ext] || "";
+// The language "Auto" resolves to: the file extension, or for files without
+// a known one, the language guessed from their content
+export function getAutoLanguage(tab: Tab): LanguageDefinition | undefined {
+  const byPath = findLanguageByPath(tab.path || tab.name);
+  if (byPath || !tab.detectedLanguage) return byPath;
+  return findLanguageById(tab.detectedLanguage);
 }
 
-export function getLanguageExtension(filePath: string | null) {
-  if (!filePath) return [];
-  const ext = filePath.split(".").pop()?.toLowerCase();
+// A language picked by hand wins over the automatic one
+export function resolveLanguage(tab: Tab): LanguageDefinition | undefined {
+  return tab.languageOverride
+    ? findLanguageById(tab.languageOverride)
+    : getAutoLanguage(tab);
+}
+
+// Id of the runnable language for the tab, or "" when it can't be run
+export function getLanguageId(tab: Tab): string {
+  const language = resolveLanguage(tab);
+  return language?.pistonId ? language.id : "";
+}
 
-  switch (ext) {
-    case "cs":
-      return [cpp()];
-    case "cpp":
-      return [cpp()];
-    case "c":
-      return [cpp()];
-    case "h":
-      return [cpp()];
-    case "py":
-      return [cpp()];
-    case "java":
-      return [java()];
-    default:
-      return [];
-  }
+export function getLanguageExtension(tab: Tab) {
+  const language = resolveLanguage(tab);
+  return language ? [language.support()] : [];
 }
@@ -0,0 +1,156 @@
+// src/utils/outputComparator.ts
+
+import type {
+  ComparisonResult,
+  ComparisonSettings,
+  DiffPosition,
+} from "../types";
+
+interface Token {
+  text: string;
+  line: number;
+  index: number;
+}
+
+type TokenEquality = (actual: string, expected: string) => boolean;
+
+const NUMBER_PATTERN = /^[+-]?(\d+(\.\d*)?|\.\d+)([eE][+-]?\d+)?$/;
+
+// Compares program output against the expected answer and locates the first
+// mismatch on both sides
+export function compareOutputs(
+  actual: string,
+  expected: string,
+  settings: ComparisonSettings
+): ComparisonResult {
+  switch (settings.mode) {
+    case "exact":
+      return compareLines(actual.split("\n"), expected.split("\n"));
+    case "trailing-whitespace":
+      return compareLines(normalizeLines(actual), normalizeLines(expected));
+    case "token":
+      return compareTokens(
+        tokenize(actual),
+        tokenize(expected),
+        (a, b) => a === b
+      );
+    case "float":
+      return compareTokens(tokenize(actual), tokenize(expected), (a, b) =>
+        numbersMatch(a, b, settings)
+      );
+  }
+}
+
+export function outputsMatch(
+  actual: string,
+  expected: string,
+  settings: ComparisonSettings
+): boolean {
+  return compareOutputs(actual, expected, settings).match;
+}
+
+// Splits a line into whitespace-separated tokens
+export function splitTokens(line: string): string[] {
+  return line.split(/\s+/).filter(Boolean);
+}
+
+// CRLF line endings, trailing spaces and trailing blank lines are ignored
+function normalizeLines(output: string): string[] {
+  const lines = output
+    .replace(/\r\n?/g, "\n")
+    .split("\n")
+    .map((line) => line.trimEnd());
+  while (lines.length > 0 && lines[lines.length - 1] === "") lines.pop();
+  return lines;
+}
+
+function compareLines(actual: string[], expected: string[]): ComparisonResult {
+  const count = Math.max(actual.length, expected.length);
+
+  for (let line = 0; line < count; line++) {
+    if (line < actual.length && line < expected.length) {
+      if (actual[line] === expected[line]) continue;
+
+      const token = firstTokenMismatch(actual[line], expected[line]);
+      return {
+        match: false,
+        actual: { line, token },
+        expected: { line, token },
+      };
+    }
+
+    // One side ran out of lines
+    return {
+      match: false,
+      actual: line < actual.length ? { line, token: null } : null,
+      expected: line < expected.length ? { line, token: null } : null,
+    };
+  }
+
+  return { match: true, actual: null, expected: null };
+}
+
+function firstTokenMismatch(actual: string, expected: string): number | null {
+  const a = splitTokens(actual);
+  const b = splitTokens(expected);
+
+  for (let i = 0; i < Math.max(a.length, b.length); i++) {
+    if (a[i] !== b[i]) return i;
+  }
+  return null;
+}
+
+function tokenize(output: string): Token[] {
+  return output
+    .replace(/\r\n?/g, "\n")
+    .split("\n")
+    .flatMap((line, lineIndex) =>
+      splitTokens(line).map((text, index) => ({
+        text,
+        line: lineIndex,
+        index,
+      }))
+    );
+}
+
+function compareTokens(
+  actual: Token[],
+  expected: Token[],
+  equal: TokenEquality
+): ComparisonResult {
+  const count = Math.max(actual.length, expected.length);
+
+  for (let i = 0; i < count; i++) {
+    const a = actual[i];
+    const b = expected[i];
+    if (a && b && equal(a.text, b.text)) continue;
+
+    return { match: false, actual: toPosition(a), expected: toPosition(b) };
+  }
+
+  return { match: true, actual: null, expected: null };
+}
+
+function toPosition(token: Token | undefined): DiffPosition | null {
+  return token ? { line: token.line, token: token.index } : null;
+}
+
+// Numbers match within the absolute or the relative (to the expected value)
+// tolerance; anything else must be identical
+function numbersMatch(
+  actual: string,
+  expected: string,
+  settings: ComparisonSettings
+): boolean {
+  if (!NUMBER_PATTERN.test(actual) || !NUMBER_PATTERN.test(expected)) {
+    return actual === expected;
+  }
+
+  const a = parseFloat(actual);
+  const b = parseFloat(expected);
+  const difference = Math.abs(a - b);
+  return (
+    difference <= settings.absoluteEpsilon ||
+    difference <= settings.relativeEpsilon * Math.abs(b)
+  );
+}
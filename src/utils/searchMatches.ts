@@ -0,0 +1,48 @@
+// src/utils/searchMatches.ts
+
+import type { SearchQuery } from "@codemirror/search";
+import type { Text } from "@codemirror/state";
+import { SEARCH_CONFIG } from "../constants";
+import type { Tab, TabSearchMatch } from "../types";
+
+export interface MatchRange {
+  from: number;
+  to: number;
+}
+
+// The first `limit` matches in document order; none for an empty or
+// invalid query
+export function findMatches(
+  doc: Text,
+  query: SearchQuery,
+  limit: number
+): MatchRange[] {
+  const matches: MatchRange[] = [];
+  if (!query.valid) return matches;
+
+  const cursor = query.getCursor(doc);
+  for (let next = cursor.next(); !next.done; next = cursor.next()) {
+    if (matches.length >= limit) break;
+    matches.push({ from: next.value.from, to: next.value.to });
+  }
+  return matches;
+}
+
+export function findTabMatches(
+  tab: Tab,
+  doc: Text,
+  query: SearchQuery,
+  limit: number
+): TabSearchMatch[] {
+  return findMatches(doc, query, limit).map(({ from, to }) => {
+    const line = doc.lineAt(from);
+    return {
+      tabId: tab.id,
+      tabName: tab.name,
+      from,
+      to,
+      line: line.number,
+      lineText: line.text.trim().slice(0, SEARCH_CONFIG.maxPreviewLength),
+    };
+  });
+}
@@ -0,0 +1,44 @@
+// src/utils/snippet.ts
+
+import { CODE_TEMPLATES } from "../constants";
+import { findLanguageById } from "../languages";
+import { renderTemplate } from "./templateSyntax";
+
+// Code that already has an entry point runs as it is. Scripting languages
+// need none, so their snippets always do.
+const ENTRY_POINT_PATTERNS: Record<string, RegExp> = {
+  cpp: /\bmain\s*\(/,
+  java: /\bstatic\s+void\s+main\s*\(/,
+  csharp: /\bstatic\s+\w+\s+Main\s*\(/,
+};
+
+export function isFullProgram(language: string, code: string): boolean {
+  const pattern = ENTRY_POINT_PATTERNS[language];
+  return !pattern || pattern.test(code);
+}
+
+// Places the snippet on the template's `$0` line, indented to match it.
+// Languages without a template are left unchanged.
+export function wrapSnippet(language: string, code: string): string {
+  if (isFullProgram(language, code)) return code;
+
+  const templateKey = findLanguageById(language)?.template;
+  if (!templateKey) return code;
+
+  const { text, cursor } = renderTemplate(CODE_TEMPLATES[templateKey], {});
+  if (cursor === null) return code;
+
+  const lineStart = text.lastIndexOf("\n", cursor - 1) + 1;
+  const lineEnd = text.indexOf("\n", cursor);
+  const indent = text.slice(lineStart, cursor);
+  const body = code
+    .split("\n")
+    .map((line) => (line ? indent + line : line))
+    .join("\n");
+
+  return (
+    text.slice(0, lineStart) +
+    body +
+    (lineEnd === -1 ? "" : text.slice(lineEnd))
+  );
+}
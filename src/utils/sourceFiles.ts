@@ -0,0 +1,55 @@
+// src/utils/sourceFiles.ts
+
+import type { SourceFile, SourceFileSet, Tab } from "../types";
+import { findLanguageById } from "../languages";
+
+const JAVA_PUBLIC_CLASS_PATTERN =
+  /^\s*public\s+(?:(?:final|abstract|strictfp)\s+)*class\s+([A-Za-z_$][\w$]*)/m;
+
+export function getSourceFileName(language: string, code: string): string {
+  if (language === "java") {
+    const match = JAVA_PUBLIC_CLASS_PATTERN.exec(code);
+    if (match) return `${match[1]}.java`;
+  }
+  return findLanguageById(language)?.sourceFileName || "main.txt";
+}
+
+// Attached tabs keep their own name so #include "helper.h" and other
+// relative references resolve
+function getAttachmentFileName(tab: Tab): string {
+  if (tab.name.toLowerCase().endsWith(".java")) return tab.name;
+
+  const match = JAVA_PUBLIC_CLASS_PATTERN.exec(tab.content);
+  if (match && !tab.name.includes(".")) return `${match[1]}.java`;
+
+  return tab.name;
+}
+
+// The entry file always comes first; Piston and the local runner both treat
+// files[0] as the program to compile or run. An attachment can't share a
+// name with another file, so clashes are returned for the caller to report.
+export function buildSourceFiles(
+  language: string,
+  code: string,
+  attachments: Tab[] = []
+): SourceFileSet {
+  const mainFile: SourceFile = {
+    name: getSourceFileName(language, code),
+    content: code,
+  };
+  const files = [mainFile];
+  const usedNames = new Set([mainFile.name]);
+  const duplicateNames: string[] = [];
+
+  attachments.forEach((tab) => {
+    const name = getAttachmentFileName(tab);
+    if (usedNames.has(name)) {
+      duplicateNames.push(name);
+      return;
+    }
+    usedNames.add(name);
+    files.push({ name, content: tab.content });
+  });
+
+  return { files, duplicateNames };
+}
@@ -0,0 +1,101 @@
+// src/utils/templateSyntax.ts
+
+// Templates use snippet syntax: `${1:n}` and `$1` are tab stops (with and
+// without default text), `$0` is where the cursor ends up, and upper-case
+// names such as `${FILENAME}` are variables filled in on insertion. A
+// backslash keeps a `$` or `#{` as typed: `\$1`, `\${x}` and `\#{x}` are
+// inserted as `$1`, `${x}` and `#{x}`.
+
+export interface RenderedTemplate {
+  text: string;
+  // Offset of `$0`, or of the first tab stop when there is none
+  cursor: number | null;
+}
+
+// An escaped `$` or `#{`, a bare tab stop such as `$1`, or a variable
+const TEMPLATE_TOKEN_PATTERN = /\\(\$|#(?=\{))|\$(\d+)|\$\{([A-Z][A-Z_]*)\}/g;
+// Same field syntax as CodeMirror's snippet(): ${1:default}, ${name}, ${}
+const FIELD_PATTERN = /[#$]\{(?:(\d+)(?::([^{}]*))?|((?:\\[{}]|[^{}])*))\}/;
+
+export function getTemplateVariables(
+  fileName: string,
+  author: string
+): Record<string, string> {
+  return {
+    FILENAME: fileName,
+    // YYYY-MM-DD in local time
+    DATE: new Date().toLocaleDateString("en-CA"),
+    CLASSNAME: toClassName(fileName),
+    AUTHOR: author,
+  };
+}
+
+// Converts a template to CodeMirror snippet syntax with the variables filled
+// in. Templates without tab stops get a `$0` at the end, so the cursor lands
+// after the inserted code.
+export function toSnippetTemplate(
+  template: string,
+  variables: Record<string, string>
+): string {
+  const text = template.replace(
+    TEMPLATE_TOKEN_PATTERN,
+    (match, escaped, stop, name, offset: number) => {
+      if (escaped) {
+        // CodeMirror reads `$\{` as a literal `${`
+        const next = template[offset + match.length];
+        return next === "{" ? `${escaped}\\` : escaped;
+      }
+      if (stop) return `\${${stop}}`;
+      return variables[name] ?? match;
+    }
+  );
+  return FIELD_PATTERN.test(text) ? text : `${text}\${0}`;
+}
+
+// Plain text of a template with every tab stop replaced by its default, for
+// code that inserts templates without an editor
+export function renderTemplate(
+  template: string,
+  variables: Record<string, string>
+): RenderedTemplate {
+  const pattern = new RegExp(FIELD_PATTERN.source, "g");
+  const snippet = toSnippetTemplate(template, variables);
+  let text = "";
+  let cursor: number | null = null;
+  let firstStop: number | null = null;
+  let last = 0;
+
+  for (const match of snippet.matchAll(pattern)) {
+    text += unescapeBraces(snippet.slice(last, match.index));
+    if (match[1] === "0") cursor = text.length;
+    if (firstStop === null) firstStop = text.length;
+
+    text += unescapeBraces(match[2] ?? match[3] ?? "");
+    last = (match.index ?? 0) + match[0].length;
+  }
+  text += unescapeBraces(snippet.slice(last));
+
+  return { text, cursor: cursor ?? firstStop };
+}
+
+// Escapes a template's literal `$` and `#{`, for templates written before the
+// escape existed
+export function escapeTemplate(template: string): string {
+  return template.replace(/\$|#\{/g, "\\$&");
+}
+
+// `\{` and `\}` are literal braces in snippet syntax
+function unescapeBraces(text: string): string {
+  return text.replace(/\\([{}])/g, "$1");
+}
+
+// "two-sum.java" -> "TwoSum"; Java class names can't start with a digit
+function toClassName(fileName: string): string {
+  const name = fileName
+    .replace(/\.[^.]*$/, "")
+    .split(/[^A-Za-z0-9]+/)
+    .map((part) => part.charAt(0).toUpperCase() + part.slice(1))
+    .join("");
+  if (!name) return "Main";
+  return /^\d/.test(name) ? `_${name}` : name;
+}